@@ -0,0 +1,96 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { FASHION_COLORS, type ColorFamily, type CustomOccasion } from '@/lib/outfit';
+
+interface CustomOccasionDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onCreate: (occasion: CustomOccasion) => void;
+}
+
+const COLOR_FAMILIES = [...new Set(FASHION_COLORS.map((color) => color.family))];
+
+const FORMALITY_HINTS = ['Very casual', 'Casual', 'Smart casual', 'Dressy', 'Formal'];
+
+// Form for a user-defined occasion: a name, the expected formality and the color families to steer clear of
+const CustomOccasionDialog = ({ open, onOpenChange, onCreate }: CustomOccasionDialogProps) => {
+  const [label, setLabel] = useState('');
+  const [formality, setFormality] = useState(50);
+  const [avoidFamilies, setAvoidFamilies] = useState<ColorFamily[]>([]);
+
+  const toggleFamily = (family: ColorFamily) =>
+    setAvoidFamilies(avoidFamilies.includes(family)
+      ? avoidFamilies.filter((entry) => entry !== family)
+      : [...avoidFamilies, family]);
+
+  const create = () => {
+    const name = label.trim();
+    if (!name) return;
+    onCreate({
+      id: `custom-${name.toLowerCase().replace(/[^a-z0-9]+/g, '-')}`,
+      label: name,
+      formality: formality / 100,
+      avoidFamilies,
+      preferredFamilies: []
+    });
+    setLabel('');
+    setFormality(50);
+    setAvoidFamilies([]);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>New Occasion</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-5">
+          <div className="space-y-2">
+            <Label htmlFor="occasion-name">Name</Label>
+            <Input
+              id="occasion-name"
+              value={label}
+              placeholder="e.g. Office party"
+              onChange={(event) => setLabel(event.target.value)}
+            />
+          </div>
+          <div className="space-y-3">
+            <div className="flex items-center justify-between">
+              <Label>Formality</Label>
+              <span className="text-xs text-muted-foreground">
+                {FORMALITY_HINTS[Math.min(Math.floor(formality / 20), FORMALITY_HINTS.length - 1)]}
+              </span>
+            </div>
+            <Slider value={[formality]} min={0} max={100} step={5} onValueChange={([value]) => setFormality(value)} />
+          </div>
+          <div className="space-y-2">
+            <Label>Colors to avoid</Label>
+            <div className="flex flex-wrap gap-1">
+              {COLOR_FAMILIES.map((family) => (
+                <Badge
+                  key={family}
+                  variant={avoidFamilies.includes(family) ? 'default' : 'outline'}
+                  className="cursor-pointer"
+                  onClick={() => toggleFamily(family)}
+                >
+                  {family}
+                </Badge>
+              ))}
+            </div>
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button onClick={create} disabled={!label.trim()} className="bg-gradient-primary">Add Occasion</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default CustomOccasionDialog;
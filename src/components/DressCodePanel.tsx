@@ -0,0 +1,120 @@
+import { useRef, useState } from 'react';
+import { AlertTriangle, CheckCircle2, ShieldCheck, Upload, XCircle } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  evaluateDressCode,
+  parseDressCodePolicy,
+  type ComplianceStatus,
+  type DressCodePolicy,
+  type OutfitAnalysis
+} from '@/lib/outfit';
+
+interface DressCodePanelProps {
+  analysis: OutfitAnalysis;
+  policies: DressCodePolicy[];
+  activePolicyId: string | null;
+  onSelect: (policyId: string) => void;
+  onImport: (policy: DressCodePolicy) => void;
+}
+
+const STATUS_ICONS: Record<ComplianceStatus, { icon: typeof CheckCircle2; className: string }> = {
+  pass: { icon: CheckCircle2, className: 'text-green-400' },
+  warn: { icon: AlertTriangle, className: 'text-yellow-400' },
+  fail: { icon: XCircle, className: 'text-red-400' }
+};
+
+const STATUS_LABELS: Record<ComplianceStatus, string> = {
+  pass: 'Compliant',
+  warn: 'Check',
+  fail: 'Not compliant'
+};
+
+// Dress-code compliance for the analyzed outfit, with policy import from a JSON file
+const DressCodePanel = ({ analysis, policies, activePolicyId, onSelect, onImport }: DressCodePanelProps) => {
+  const fileRef = useRef<HTMLInputElement>(null);
+  const [importError, setImportError] = useState<string | null>(null);
+  const policy = policies.find((entry) => entry.id === activePolicyId) ?? policies[0] ?? null;
+  const report = policy ? evaluateDressCode(policy, analysis) : null;
+
+  const importFile = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      onImport(parseDressCodePolicy(JSON.parse(await file.text())));
+      setImportError(null);
+    } catch (error) {
+      setImportError(error instanceof Error ? error.message : 'Could not read the policy file');
+    } finally {
+      if (fileRef.current) fileRef.current.value = '';
+    }
+  };
+
+  return (
+    <Card className="bg-gradient-glass backdrop-blur-md border-border/50">
+      <div className="p-4 space-y-3">
+        <div className="flex items-center justify-between gap-2">
+          <div className="flex items-center gap-2">
+            <ShieldCheck className="w-4 h-4 text-accent" />
+            <span className="text-sm font-medium">Dress Code</span>
+          </div>
+          <div className="flex items-center gap-2">
+            {policies.length > 0 && (
+              <Select value={policy?.id} onValueChange={onSelect}>
+                <SelectTrigger className="w-36 h-7 text-xs">
+                  <SelectValue placeholder="Policy" />
+                </SelectTrigger>
+                <SelectContent>
+                  {policies.map((entry) => (
+                    <SelectItem key={entry.id} value={entry.id} className="text-xs">
+                      {entry.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+            <Button variant="ghost" size="sm" className="h-7 px-2 text-xs" onClick={() => fileRef.current?.click()}>
+              <Upload className="w-3 h-3 mr-1" />
+              Import
+            </Button>
+            <input
+              ref={fileRef}
+              type="file"
+              accept="application/json,.json"
+              className="hidden"
+              onChange={(event) => importFile(event.target.files?.[0])}
+            />
+          </div>
+        </div>
+
+        {importError && <p className="text-xs text-red-400">{importError}</p>}
+
+        {report ? (
+          <>
+            <p className={`text-sm font-semibold ${STATUS_ICONS[report.status].className}`}>
+              {STATUS_LABELS[report.status]}
+            </p>
+            <div className="space-y-1.5">
+              {report.results.map((result) => {
+                const { icon: Icon, className } = STATUS_ICONS[result.status];
+                return (
+                  <div key={result.ruleId} className="flex items-start gap-2 text-sm">
+                    <Icon className={`w-4 h-4 mt-0.5 shrink-0 ${className}`} />
+                    <div>
+                      <span>{result.label}</span>
+                      <span className="block text-xs text-muted-foreground">{result.detail}</span>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          </>
+        ) : (
+          <p className="text-xs text-muted-foreground">Import a dress-code policy (JSON) to check this outfit against it</p>
+        )}
+      </div>
+    </Card>
+  );
+};
+
+export default DressCodePanel;
@@ -0,0 +1,157 @@
+import { Users } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Card } from '@/components/ui/card';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import PaletteSwatches from '@/components/PaletteSwatches';
+import { IMAGE_SOURCE_LABELS, type ImageSourceKind } from '@/lib/imageSource';
+import ScoreBreakdownChart from '@/components/ScoreBreakdownChart';
+import { getFashionColor, type GroupAnalysis, type SuggestionSeverity } from '@/lib/outfit';
+
+interface GroupResultsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  group: GroupAnalysis | null;
+  image: string | null;
+  source: ImageSourceKind | null;
+}
+
+const SEVERITY_COLORS: Record<SuggestionSeverity, string> = {
+  warning: 'text-red-400',
+  tip: 'text-primary',
+  praise: 'text-green-400'
+};
+
+const scoreColor = (score: number) => {
+  if (score >= 9) return 'text-green-400';
+  if (score >= 7) return 'text-blue-400';
+  if (score >= 5) return 'text-yellow-400';
+  return 'text-red-400';
+};
+
+// Group coordination results: the shared score and palette, who should change
+// what, and a mini-card per member numbered as on the mirror overlay
+const GroupResultsDialog = ({ open, onOpenChange, group, image, source }: GroupResultsDialogProps) => (
+  <Dialog open={open} onOpenChange={onOpenChange}>
+    <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto bg-gradient-glass backdrop-blur-md border-border/50">
+      <DialogHeader>
+        <DialogTitle className="flex items-center gap-2 text-2xl">
+          <Users className="w-6 h-6 text-primary" />
+          Group Coordination
+          {source && (
+            <Badge variant="outline" className="ml-auto mr-6 text-xs font-normal">
+              {IMAGE_SOURCE_LABELS[source]}
+            </Badge>
+          )}
+        </DialogTitle>
+      </DialogHeader>
+
+      {group && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mt-4">
+          <div className="space-y-4">
+            {image && (
+              <div className="relative rounded-xl overflow-hidden border-2 border-primary/30">
+                <img src={image} alt="Analyzed group" className="w-full h-auto object-cover" />
+                {group.members.map(({ index, analysis }) => analysis.region && (
+                  <div
+                    key={index}
+                    className="absolute border-2 border-dashed border-primary pointer-events-none"
+                    style={{
+                      left: `${(analysis.region.x / analysis.frame.width) * 100}%`,
+                      top: `${(analysis.region.y / analysis.frame.height) * 100}%`,
+                      width: `${(analysis.region.width / analysis.frame.width) * 100}%`,
+                      height: `${(analysis.region.height / analysis.frame.height) * 100}%`
+                    }}
+                  >
+                    <span className="absolute top-0 left-0 bg-primary px-1.5 rounded-br text-xs font-semibold text-white">
+                      {index + 1}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {/* Member mini-cards */}
+            <div className="grid grid-cols-2 gap-3">
+              {group.members.map(({ index, analysis, formality, clashesWith }) => (
+                <Card key={index} className="bg-gradient-glass backdrop-blur-md border-border/50">
+                  <div className="p-3 space-y-2">
+                    <div className="flex items-center justify-between">
+                      <span className="text-sm font-medium">Person {index + 1}</span>
+                      <span className={`text-sm font-semibold ${scoreColor(analysis.score)}`}>{analysis.score}/10</span>
+                    </div>
+                    <Badge variant="secondary" className="text-xs">{analysis.style}</Badge>
+                    <div className="flex gap-1">
+                      {analysis.colors.map((color) => (
+                        <span
+                          key={color}
+                          title={color}
+                          className="w-4 h-4 rounded-full border border-border"
+                          style={{ backgroundColor: getFashionColor(color)?.hex }}
+                        />
+                      ))}
+                    </div>
+                    <p className="text-xs text-muted-foreground">{Math.round(formality * 100)}% formal</p>
+                    {clashesWith.length > 0 && (
+                      <p className="text-xs text-red-400">
+                        Clashes with {clashesWith.map((other) => `Person ${other + 1}`).join(', ')}
+                      </p>
+                    )}
+                  </div>
+                </Card>
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-4">
+            <Card className="bg-gradient-glass backdrop-blur-md border-border/50">
+              <div className="p-4">
+                <div className="flex items-center justify-between mb-3">
+                  <span className="text-sm font-medium">Group Score</span>
+                  <span className={`text-2xl font-bold ${scoreColor(group.score)}`}>{group.score}/10</span>
+                </div>
+                <ScoreBreakdownChart breakdown={group.breakdown} />
+              </div>
+            </Card>
+
+            <Card className="bg-gradient-glass backdrop-blur-md border-border/50">
+              <div className="p-4 space-y-3">
+                <div className="flex items-center justify-between">
+                  <span className="text-sm font-medium">Group Palette</span>
+                  <Badge variant="outline" className="text-xs">{group.harmony.label}</Badge>
+                </div>
+                <PaletteSwatches palette={group.palette} showLegend={false} />
+                <p className="text-xs text-muted-foreground">
+                  {group.sharedColors.length > 0
+                    ? `Shared: ${group.sharedColors.join(', ')}`
+                    : 'No colors shared between outfits'}
+                </p>
+              </div>
+            </Card>
+
+            {group.suggestions.length > 0 && (
+              <Card className="bg-gradient-glass backdrop-blur-md border-border/50">
+                <div className="p-4">
+                  <h4 className="text-sm font-medium mb-3 text-accent">Who Should Change What</h4>
+                  <div className="space-y-2">
+                    {group.suggestions.map((suggestion) => (
+                      <p
+                        key={suggestion.ruleId}
+                        className="text-sm text-muted-foreground flex items-start gap-2"
+                        title={suggestion.ruleId}
+                      >
+                        <span className={`${SEVERITY_COLORS[suggestion.severity]} mt-1`}>•</span>
+                        {suggestion.text}
+                      </p>
+                    ))}
+                  </div>
+                </div>
+              </Card>
+            )}
+          </div>
+        </div>
+      )}
+    </DialogContent>
+  </Dialog>
+);
+
+export default GroupResultsDialog;
@@ -0,0 +1,42 @@
+import type { PaletteSwatch } from '@/lib/outfit';
+
+interface PaletteSwatchesProps {
+  palette: PaletteSwatch[];
+  showLegend?: boolean;
+  showCoverage?: boolean;
+}
+
+// Proportional color bar: each swatch is as wide as the share of the outfit it covers
+const PaletteSwatches = ({ palette, showLegend = true, showCoverage = true }: PaletteSwatchesProps) => {
+  const total = palette.reduce((sum, swatch) => sum + swatch.coverage, 0) || 1;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex h-6 w-full rounded-md overflow-hidden border border-border">
+        {palette.map((swatch) => (
+          <div
+            key={swatch.hex}
+            title={showCoverage ? `${swatch.name} ${Math.round(swatch.coverage * 100)}%` : swatch.name}
+            style={{ width: `${(swatch.coverage / total) * 100}%`, backgroundColor: swatch.hex }}
+          />
+        ))}
+      </div>
+      {showLegend && (
+        <div className="flex flex-wrap gap-x-3 gap-y-1">
+          {palette.map((swatch) => (
+            <div key={swatch.hex} className="flex items-center gap-1.5 text-xs text-muted-foreground">
+              <span
+                className="w-2.5 h-2.5 rounded-full border border-border"
+                style={{ backgroundColor: swatch.hex }}
+              />
+              {swatch.name}
+              {showCoverage && <span className="text-foreground/70">{Math.round(swatch.coverage * 100)}%</span>}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PaletteSwatches;
@@ -0,0 +1,47 @@
+import { Bar, BarChart, XAxis, YAxis } from 'recharts';
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from '@/components/ui/chart';
+import type { ScoreCriterion } from '@/lib/outfit';
+
+interface ScoreBreakdownChartProps {
+  breakdown: ScoreCriterion[];
+}
+
+const chartConfig = {
+  points: { label: 'Points', color: 'hsl(var(--primary))' },
+  missed: { label: 'Missed', color: 'hsl(var(--muted))' }
+} satisfies ChartConfig;
+
+// Horizontal stacked bars: points earned per criterion, with the points missed in muted
+const ScoreBreakdownChart = ({ breakdown }: ScoreBreakdownChartProps) => {
+  const data = breakdown.map((criterion) => ({
+    label: criterion.label,
+    points: criterion.points,
+    missed: Math.max(0, criterion.maxPoints - criterion.points)
+  }));
+
+  return (
+    <div className="space-y-3">
+      <ChartContainer config={chartConfig} className="aspect-auto h-40 w-full">
+        <BarChart data={data} layout="vertical" margin={{ left: 8, right: 8 }}>
+          <XAxis type="number" hide />
+          <YAxis type="category" dataKey="label" width={100} tickLine={false} axisLine={false} />
+          <ChartTooltip cursor={false} content={<ChartTooltipContent />} />
+          <Bar dataKey="points" stackId="score" fill="var(--color-points)" radius={[4, 0, 0, 4]} />
+          <Bar dataKey="missed" stackId="score" fill="var(--color-missed)" radius={[0, 4, 4, 0]} />
+        </BarChart>
+      </ChartContainer>
+      <div className="space-y-1">
+        {breakdown.map((criterion) => (
+          <p key={criterion.id} className="text-xs text-muted-foreground">
+            <span className="font-medium text-foreground">
+              {criterion.label} {criterion.points}/{criterion.maxPoints}
+            </span>
+            {' '}({criterion.measurementLabel}): {criterion.reason}
+          </p>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default ScoreBreakdownChart;
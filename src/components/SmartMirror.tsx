@@ -1,63 +1,236 @@
 import React, { useRef, useEffect, useState } from 'react';
-import { Camera, Star, Sparkles, Shirt, Palette, TrendingUp, X } from 'lucide-react';
+import { Camera, Star, Sparkles, Shirt, Palette, TrendingUp, X, Layers, PersonStanding, Upload, Users } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
-import { pipeline, env } from '@huggingface/transformers';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { toast } from '@/components/ui/sonner';
+import CustomOccasionDialog from '@/components/CustomOccasionDialog';
+import DressCodePanel from '@/components/DressCodePanel';
+import GroupResultsDialog from '@/components/GroupResultsDialog';
+import PaletteSwatches from '@/components/PaletteSwatches';
+import ScoreBreakdownChart from '@/components/ScoreBreakdownChart';
+import WeatherBadge from '@/components/WeatherBadge';
+import type {
+  ImageSegmentationPipelineType,
+  ObjectDetectionPipelineType,
+  ZeroShotImageClassificationPipelineType
+} from '@huggingface/transformers';
+import {
+  CLOTHING_DETECTION_MODEL,
+  CLOTHING_SEGMENTATION_MODEL,
+  PERSON_DETECTION_MODEL,
+  STYLE_CLASSIFIER_MODEL,
+  loadPipeline,
+  loadPoseEstimator
+} from '@/lib/models';
+import {
+  IMAGE_SOURCE_LABELS,
+  captureVideoFrame,
+  imageFileFrom,
+  loadImageFile,
+  type CapturedFrame,
+  type ImageSourceKind
+} from '@/lib/imageSource';
+import { loadUserProfile, saveUserProfile, type UserProfile } from '@/lib/userProfile';
+import { createDefaultWeatherProvider, fetchWeather } from '@/lib/weather';
+import {
+  addToneSample,
+  analyzeGroup,
+  analyzePerson,
+  applyStyleClassification,
+  classifyFootwear,
+  classifyPatterns,
+  classifySeason,
+  classifyStyle,
+  buildClothingMask,
+  detectionAt,
+  estimatePose,
+  expandBox,
+  COCO_ACCESSORY_LABELS,
+  DEFAULT_PROFILE_ID,
+  SCORING_PROFILES,
+  getScoringProfile,
+  getFashionColor,
+  getOccasion,
+  isIdentityCorrection,
+  limitingFactors,
+  MIN_KEYPOINT_SCORE,
+  normalizeImage,
+  OCCASION_PRESETS,
+  parseItemDetections,
+  personDetections,
+  regionCoverage,
+  sampleTones,
+  seasonalSwatches,
+  SEASONAL_PALETTES,
+  SETTLED_TONE_SAMPLES,
+  SKELETON_EDGES,
+  type ClothingItem,
+  type ClothingMask,
+  type CustomOccasion,
+  type DressCodePolicy,
+  type GroupAnalysis,
+  type HemPosition,
+  type Keypoint,
+  type OutfitAnalysis,
+  type PersonDetection,
+  type PoseEstimator,
+  type ProfileId,
+  type RawDetection,
+  type Region,
+  type SplitBalance,
+  type SuggestionSeverity,
+  type WeatherConditions,
+  type ZeroShotClassifier,
+  type ZeroShotResult
+} from '@/lib/outfit';
 
-// Configure transformers
-env.allowLocalModels = false;
-env.useBrowserCache = true;
+// Tint used to paint the clothing mask (the theme accent color)
+const MASK_TINT = [166, 90, 246];
+// Solid accent for lines and badges drawn on the overlay canvas
+const OVERLAY_COLOR = `rgb(${MASK_TINT.join(', ')})`;
 
-interface OutfitAnalysis {
-  score: number;
-  style: string;
-  colors: string[];
-  suggestions: string[];
-  confidence: number;
-}
+const BALANCE_LABELS: Record<SplitBalance, string> = {
+  thirds: 'Near a third',
+  halved: 'Cut in half',
+  uneven: 'Off the thirds'
+};
+
+const HEM_LABELS: Record<HemPosition, string> = {
+  'above-knee': 'Above the knee',
+  knee: 'At the knee',
+  'mid-calf': 'Mid-calf',
+  ankle: 'Ankle length'
+};
+
+const SEVERITY_COLORS: Record<SuggestionSeverity, string> = {
+  warning: 'text-red-400',
+  tip: 'text-primary',
+  praise: 'text-green-400'
+};
 
-interface PersonDetection {
-  bbox: [number, number, number, number]; // [x, y, width, height]
-  confidence: number;
-}
+// Select value that opens the custom occasion form instead of choosing an occasion
+const NEW_OCCASION = '__new';
+
+// Frame-to-view mapping for the overlay. The camera feed fills the view
+// (stretched, as drawn before stills existed); stills are letterboxed like
+// object-contain so the photo keeps its aspect ratio.
+const viewMapping = (frameWidth: number, frameHeight: number, viewWidth: number, viewHeight: number, letterbox: boolean) => {
+  const scaleX = viewWidth / frameWidth;
+  const scaleY = viewHeight / frameHeight;
+  if (!letterbox) return { scaleX, scaleY, offsetX: 0, offsetY: 0 };
+
+  const scale = Math.min(scaleX, scaleY);
+  return {
+    scaleX: scale,
+    scaleY: scale,
+    offsetX: (viewWidth - frameWidth * scale) / 2,
+    offsetY: (viewHeight - frameHeight * scale) / 2
+  };
+};
 
 const SmartMirror = () => {
   const videoRef = useRef<HTMLVideoElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
+  const uploadRef = useRef<HTMLInputElement>(null);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [cameraActive, setCameraActive] = useState(false);
   const [analysis, setAnalysis] = useState<OutfitAnalysis | null>(null);
   const [personDetected, setPersonDetected] = useState<PersonDetection | null>(null);
+  const [people, setPeople] = useState<PersonDetection[]>([]);
+  const [selectedPerson, setSelectedPerson] = useState<number | null>(null);
+  const [groupAnalysis, setGroupAnalysis] = useState<GroupAnalysis | null>(null);
+  // Frame being analyzed, and the photo shown in place of the feed for stills
+  const [frame, setFrame] = useState<CapturedFrame | null>(null);
+  const [stillImage, setStillImage] = useState<string | null>(null);
+  const [isDragging, setIsDragging] = useState(false);
+  // Frame the people boxes were found in, kept while waiting for a pick
+  const pendingFrameRef = useRef<{ frame: HTMLCanvasElement; source: ImageSourceKind; detections: RawDetection[] } | null>(null);
   const [capturedImage, setCapturedImage] = useState<string | null>(null);
-  const [detector, setDetector] = useState<any>(null);
+  const [detector, setDetector] = useState<ObjectDetectionPipelineType | null>(null);
+  const [segmenter, setSegmenter] = useState<ImageSegmentationPipelineType | null>(null);
+  const [styleModel, setStyleModel] = useState<ZeroShotImageClassificationPipelineType | null>(null);
+  const [itemDetector, setItemDetector] = useState<ObjectDetectionPipelineType | null>(null);
+  const [poseEstimator, setPoseEstimator] = useState<PoseEstimator | null>(null);
+  const [clothingMask, setClothingMask] = useState<ClothingMask | null>(null);
+  const [showMask, setShowMask] = useState(true);
+  const [pose, setPose] = useState<Keypoint[]>([]);
+  const [showPose, setShowPose] = useState(true);
+  const [showRawColors, setShowRawColors] = useState(false);
+  const [userProfile, setUserProfile] = useState<UserProfile>(loadUserProfile);
+  const [showOccasionDialog, setShowOccasionDialog] = useState(false);
+  const [weather, setWeather] = useState<WeatherConditions | null>(null);
+  const [profileId, setProfileId] = useState<ProfileId>(DEFAULT_PROFILE_ID);
   const [showResults, setShowResults] = useState(false);
 
   useEffect(() => {
     startCamera();
     loadDetectionModel();
+    loadSegmentationModel();
+    loadStyleModel();
+    loadItemDetectionModel();
+    loadPoseModel();
+    loadWeather();
   }, []);
 
+  // Weather feeds the suggestions; analysis runs without it when none is
+  // configured or it cannot be loaded
+  const loadWeather = async () => {
+    const provider = createDefaultWeatherProvider();
+    if (provider) setWeather(await fetchWeather(provider));
+  };
+
   // Load the person detection model
   const loadDetectionModel = async () => {
     try {
-      console.log('Loading person detection model...');
-      const objectDetector = await pipeline('object-detection', 'Xenova/detr-resnet-50', {
-        device: 'webgpu',
-      });
-      setDetector(objectDetector);
-      console.log('Person detection model loaded successfully');
+      const objectDetector = await loadPipeline('object-detection', PERSON_DETECTION_MODEL);
+      setDetector(() => objectDetector);
     } catch (error) {
       console.error('Error loading detection model:', error);
-      // Fallback without webgpu
-      try {
-        const objectDetector = await pipeline('object-detection', 'Xenova/detr-resnet-50');
-        setDetector(objectDetector);
-        console.log('Person detection model loaded successfully (fallback)');
-      } catch (fallbackError) {
-        console.error('Error loading detection model (fallback):', fallbackError);
-      }
+    }
+  };
+
+  // Load the clothing segmentation model; analysis falls back to the person box without it
+  const loadSegmentationModel = async () => {
+    try {
+      const clothingSegmenter = await loadPipeline('image-segmentation', CLOTHING_SEGMENTATION_MODEL);
+      setSegmenter(() => clothingSegmenter);
+    } catch (error) {
+      console.error('Error loading segmentation model:', error);
+    }
+  };
+
+  // Load the zero-shot style classifier; the color heuristic is used without it
+  const loadStyleModel = async () => {
+    try {
+      const clipClassifier = await loadPipeline('zero-shot-image-classification', STYLE_CLASSIFIER_MODEL);
+      setStyleModel(() => clipClassifier);
+    } catch (error) {
+      console.error('Error loading style model:', error);
+    }
+  };
+
+  // Load the clothing item detector; the item inventory stays empty without it
+  const loadItemDetectionModel = async () => {
+    try {
+      const fashionDetector = await loadPipeline('object-detection', CLOTHING_DETECTION_MODEL);
+      setItemDetector(() => fashionDetector);
+    } catch (error) {
+      console.error('Error loading clothing item model:', error);
+    }
+  };
+
+  // Load the pose model; proportion feedback is skipped without it
+  const loadPoseModel = async () => {
+    try {
+      const estimator = await loadPoseEstimator();
+      setPoseEstimator(() => estimator);
+    } catch (error) {
+      console.error('Error loading pose model:', error);
     }
   };
 
@@ -80,98 +253,360 @@ const SmartMirror = () => {
     }
   };
 
-  // Detect person in the video feed
-  const detectPerson = async () => {
-    if (!videoRef.current || !detector) return null;
+  // Detect everyone in a captured frame, numbered left to right as they appear
+  // on screen (camera frames are mirrored). The raw detections are kept for
+  // each person's accessories.
+  const detectPeople = async (captured: CapturedFrame): Promise<{ people: PersonDetection[]; detections: RawDetection[] }> => {
+    if (!detector) return { people: [], detections: [] };
 
     try {
-      // Create canvas to capture frame
-      const canvas = document.createElement('canvas');
-      const ctx = canvas.getContext('2d');
-      if (!ctx) return null;
+      const detections = (await detector(captured.canvas.toDataURL('image/jpeg', 0.8))) as RawDetection[];
+      return { people: personDetections(detections, { mirrored: captured.mirrored }), detections };
+    } catch (error) {
+      console.error('Error detecting people:', error);
+      return { people: [], detections: [] };
+    }
+  };
 
-      canvas.width = videoRef.current.videoWidth;
-      canvas.height = videoRef.current.videoHeight;
-      ctx.drawImage(videoRef.current, 0, 0);
+  // Segment the frame into a clothing mask, or null when the model is unavailable
+  const segmentClothing = async (imageDataUrl: string) => {
+    if (!segmenter) return null;
 
-      // Convert to base64 for the model
-      const imageData = canvas.toDataURL('image/jpeg', 0.8);
-      
-      // Detect objects
-      const detections = await detector(imageData);
-      
-      // Find person with highest confidence
-      const personDetection = detections
-        .filter((det: any) => det.label === 'person')
-        .reduce((best: any, current: any) => 
-          current.score > (best?.score || 0) ? current : best, null);
-
-      if (personDetection) {
-        const bbox: [number, number, number, number] = [
-          personDetection.box.xmin,
-          personDetection.box.ymin,
-          personDetection.box.xmax - personDetection.box.xmin,
-          personDetection.box.ymax - personDetection.box.ymin
-        ];
-        
-        return {
-          bbox,
-          confidence: personDetection.score
-        };
-      }
+    try {
+      const segments = await segmenter(imageDataUrl);
+      return buildClothingMask(segments);
+    } catch (error) {
+      console.error('Error segmenting clothing:', error);
+      return null;
+    }
+  };
+
+  // Detect individual garments and accessories in the frame; each person's
+  // items are picked out with parseItemDetections
+  const detectItems = async (imageDataUrl: string): Promise<RawDetection[]> => {
+    if (!itemDetector) return [];
+
+    try {
+      return (await itemDetector(imageDataUrl, { threshold: 0.5 })) as RawDetection[];
     } catch (error) {
-      console.error('Error detecting person:', error);
+      console.error('Error detecting clothing items:', error);
+      return [];
+    }
+  };
+
+  // Add this capture's skin, hair and eye tones to the stored samples and
+  // reclassify the wearer's season. Tones are read from the white-balanced
+  // frame so warm room light does not read as a warm undertone. Only the live
+  // camera shows the wearer; uploaded photos may be of anyone, so they use the
+  // stored season without adding samples.
+  const updatePersonalColor = (imageData: ImageData, detection: PersonDetection, source: ImageSourceKind) => {
+    if (!userProfile.personalColorEnabled) return null;
+    if (source !== 'camera') return userProfile.personalColor;
+
+    const subject = expandBox(detection.bbox, 0, imageData.width, imageData.height);
+    const sample = sampleTones(normalizeImage(imageData, {}, subject).image, detection);
+    if (!sample) return userProfile.personalColor;
+
+    const toneSamples = addToneSample(userProfile.toneSamples, sample);
+    const updated = { ...userProfile, toneSamples, personalColor: classifySeason(toneSamples) };
+    setUserProfile(updated);
+    saveUserProfile(updated);
+    return updated.personalColor;
+  };
+
+  const setPersonalColorEnabled = (enabled: boolean) => {
+    const updated = { ...userProfile, personalColorEnabled: enabled };
+    setUserProfile(updated);
+    saveUserProfile(updated);
+  };
+
+  // Pick an occasion, or open the form for a new one
+  const selectOccasion = (id: string) => {
+    if (id === NEW_OCCASION) {
+      setShowOccasionDialog(true);
+      return;
+    }
+    const updated = { ...userProfile, occasionId: id };
+    setUserProfile(updated);
+    saveUserProfile(updated);
+  };
+
+  const addCustomOccasion = (occasion: CustomOccasion) => {
+    const updated = {
+      ...userProfile,
+      occasionId: occasion.id,
+      customOccasions: [...userProfile.customOccasions.filter((entry) => entry.id !== occasion.id), occasion]
+    };
+    setUserProfile(updated);
+    saveUserProfile(updated);
+    setShowOccasionDialog(false);
+  };
+
+  const selectDressCode = (policyId: string) => {
+    const updated = { ...userProfile, activeDressCodeId: policyId };
+    setUserProfile(updated);
+    saveUserProfile(updated);
+  };
+
+  // An imported policy replaces any stored one with the same id
+  const importDressCode = (policy: DressCodePolicy) => {
+    const updated = {
+      ...userProfile,
+      activeDressCodeId: policy.id,
+      dressCodes: [...userProfile.dressCodes.filter((entry) => entry.id !== policy.id), policy]
+    };
+    setUserProfile(updated);
+    saveUserProfile(updated);
+  };
+
+  const resetPersonalColor = () => {
+    const updated = { ...userProfile, toneSamples: [], personalColor: null };
+    setUserProfile(updated);
+    saveUserProfile(updated);
+  };
+
+  // Adapt the CLIP pipeline to the analyzer's injectable classifier interface
+  const styleClassifier: ZeroShotClassifier | null = styleModel
+    ? async (image, labels, options) => (await styleModel(image, labels, options)) as ZeroShotResult[]
+    : null;
+
+  // Crop a region of a captured frame into a data URL for the models
+  const cropRegion = (source: HTMLCanvasElement, region: Region) => {
+    const crop = document.createElement('canvas');
+    crop.width = region.width;
+    crop.height = region.height;
+    crop.getContext('2d')?.drawImage(
+      source,
+      region.x, region.y, region.width, region.height,
+      0, 0, region.width, region.height
+    );
+    return crop.toDataURL('image/jpeg', 0.9);
+  };
+
+  // Find who is in a frame from any source. With several people the boxes are
+  // numbered on the overlay and analysis waits until one is chosen.
+  const analyzeCapturedFrame = async (captured: CapturedFrame) => {
+    setFrame(captured);
+    setIsAnalyzing(true);
+    setSelectedPerson(null);
+    const { people: found, detections } = await detectPeople(captured);
+    setPeople(found);
+
+    if (found.length > 1) {
+      pendingFrameRef.current = { frame: captured.canvas, source: captured.source, detections };
+      setIsAnalyzing(false);
+      return;
     }
-    return null;
+    await analyzeFrame(captured.canvas, captured.source, detections, found.length === 1 ? 0 : null, found);
   };
 
-  // Capture and analyze the image
+  // Capture the live camera frame and analyze it
   const analyzeOutfit = async () => {
-    if (!videoRef.current) return;
-    
+    const captured = videoRef.current ? captureVideoFrame(videoRef.current) : null;
+    if (!captured) {
+      toast.error('The camera is not available; upload, drop or paste a photo instead');
+      return;
+    }
+    await analyzeCapturedFrame(captured);
+  };
+
+  // Analyze a photo from the file picker, a drop or the clipboard. It replaces
+  // the live feed on screen until the results are closed.
+  const analyzeImageFile = async (file: File, source: Exclude<ImageSourceKind, 'camera'>) => {
+    if (!detector) {
+      toast.error('The models are still loading; try again in a moment');
+      return;
+    }
+    if (isAnalyzing || choosingPerson) {
+      toast.error('Finish the current analysis or pick a person first');
+      return;
+    }
+
+    try {
+      const captured = await loadImageFile(file, source);
+      setStillImage(captured.canvas.toDataURL('image/jpeg', 0.9));
+      await analyzeCapturedFrame(captured);
+    } catch (error) {
+      console.error('Error loading image:', error);
+      toast.error(error instanceof Error ? error.message : 'Could not load that image');
+    }
+  };
+
+  // Back to the live feed
+  const clearFrame = () => {
+    setFrame(null);
+    setStillImage(null);
+  };
+
+  // Analyze the chosen person in the frame their box was drawn from
+  const selectPerson = async (index: number) => {
+    const pending = pendingFrameRef.current;
+    if (!pending || !people[index] || isAnalyzing) return;
+
+    pendingFrameRef.current = null;
+    setIsAnalyzing(true);
+    await analyzeFrame(pending.frame, pending.source, pending.detections, index, people);
+  };
+
+  const cancelPersonPick = () => {
+    pendingFrameRef.current = null;
+    setPeople([]);
+    clearFrame();
+  };
+
+  // Analyze everyone in the pending frame and score how well they go together.
+  // The segmentation and item models run once for the whole frame; personal
+  // colors and the pose and CLIP passes are single-person features and are skipped.
+  const analyzeGroupFrame = async () => {
+    const pending = pendingFrameRef.current;
+    if (!pending || isAnalyzing) return;
+
+    pendingFrameRef.current = null;
     setIsAnalyzing(true);
-    
     try {
-      // First detect person
-      console.log('Detecting person...');
-      const detection = await detectPerson();
-      setPersonDetected(detection);
+      const { frame, detections } = pending;
+      const imageDataUrl = frame.toDataURL('image/jpeg', 0.9);
+      setCapturedImage(imageDataUrl);
 
-      // Capture the current frame
-      const canvas = document.createElement('canvas');
-      const ctx = canvas.getContext('2d');
+      const ctx = frame.getContext('2d');
       if (!ctx) return;
+      const imageData = ctx.getImageData(0, 0, frame.width, frame.height);
+      const mask = await segmentClothing(imageDataUrl);
+      const itemDetections = await detectItems(imageDataUrl);
+      const occasion = getOccasion(userProfile.occasionId, userProfile.customOccasions);
+
+      const analyses = people.map((person) => analyzePerson(imageData, person, {
+        mask,
+        items: parseItemDetections(itemDetections, { person: person.bbox }),
+        accessories: parseItemDetections(detections, { person: person.bbox, labels: COCO_ACCESSORY_LABELS }),
+        weather,
+        profile: getScoringProfile(profileId),
+        occasion
+      }));
+
+      setGroupAnalysis(analyzeGroup(analyses));
+    } catch (error) {
+      console.error('Error analyzing group:', error);
+      // The pending frame is gone, so close the picker instead of leaving it stuck open
+      toast.error('Could not analyze the group; try again');
+      setCapturedImage(null);
+      setPeople([]);
+      clearFrame();
+    } finally {
+      setIsAnalyzing(false);
+    }
+  };
+
+  const closeGroupResults = () => {
+    setGroupAnalysis(null);
+    setCapturedImage(null);
+    setPeople([]);
+    clearFrame();
+  };
+
+  // Back to the live feed with the summary card still showing over it
+  const hideResults = () => {
+    setShowResults(false);
+    setPose([]);
+    setPeople([]);
+    setSelectedPerson(null);
+    clearFrame();
+  };
+
+  // Clear every trace of a single-person analysis and return to the live feed
+  const closeResults = () => {
+    hideResults();
+    setAnalysis(null);
+    setCapturedImage(null);
+    setPersonDetected(null);
+    setClothingMask(null);
+  };
+
+  // Analyze one person (or the empty frame) in a captured frame
+  const analyzeFrame = async (
+    canvas: HTMLCanvasElement,
+    source: ImageSourceKind,
+    detections: RawDetection[],
+    index: number | null,
+    found: PersonDetection[]
+  ) => {
+    try {
+      const detection = index !== null ? found[index] : null;
+      const accessories = detection
+        ? parseItemDetections(detections, { person: detection.bbox, labels: COCO_ACCESSORY_LABELS })
+        : [];
+      setSelectedPerson(index);
+      setPersonDetected(detection);
 
-      canvas.width = videoRef.current.videoWidth;
-      canvas.height = videoRef.current.videoHeight;
-      ctx.drawImage(videoRef.current, 0, 0);
-      
       const imageDataUrl = canvas.toDataURL('image/jpeg', 0.9);
       setCapturedImage(imageDataUrl);
 
-      // Analyze image for realistic scoring
-      const analysisCanvas = document.createElement('canvas');
-      const analysisCtx = analysisCanvas.getContext('2d');
-      if (!analysisCtx) return;
+      const ctx = canvas.getContext('2d');
+      if (!ctx) return;
+      const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
+      const mask = detection ? await segmentClothing(imageDataUrl) : null;
+      setClothingMask(mask);
+      const personalColor = detection ? updatePersonalColor(imageData, detection, source) : null;
+      const items = detection
+        ? parseItemDetections(await detectItems(imageDataUrl), { person: detection.bbox })
+        : [];
+      const personRegion = detection ? expandBox(detection.bbox, 0, canvas.width, canvas.height) : null;
+      const { keypoints, error: poseError } = personRegion
+        ? await estimatePose(
+          cropRegion(canvas, personRegion),
+          [personRegion.x, personRegion.y, personRegion.width, personRegion.height],
+          poseEstimator
+        )
+        : { keypoints: [], error: null };
+      if (poseError) console.error('Error estimating pose:', poseError);
+      setPose(keypoints);
+      const analysisOptions = {
+        mask,
+        items,
+        accessories,
+        weather,
+        personalColor,
+        pose: keypoints,
+        profile: getScoringProfile(profileId),
+        occasion: getOccasion(userProfile.occasionId, userProfile.customOccasions)
+      };
+      let newAnalysis = analyzePerson(imageData, detection, analysisOptions);
+
+      if (newAnalysis.personFound && newAnalysis.region) {
+        // Let the CLIP model relabel garment patterns and name the footwear,
+        // then rescore with its labels
+        const crops = Object.fromEntries(
+          newAnalysis.garments.map(garment => [garment.kind, cropRegion(canvas, garment.region)])
+        );
+        const { patterns, errors: patternErrors } = await classifyPatterns(crops, styleClassifier);
+        for (const [garment, error] of Object.entries(patternErrors)) {
+          console.error(`Error classifying ${garment} pattern:`, error);
+        }
+        const feet = newAnalysis.garments.find(garment => garment.kind === 'footwear');
+        const { item: footwear, error: footwearError } = feet
+          ? await classifyFootwear(crops.footwear, [feet.region.x, feet.region.y, feet.region.width, feet.region.height], styleClassifier)
+          : { item: null, error: null };
+        if (footwearError) console.error('Error classifying footwear:', footwearError);
+        if (Object.keys(patterns).length > 0 || footwear) {
+          newAnalysis = analyzePerson(imageData, detection, {
+            ...analysisOptions,
+            patterns,
+            items: footwear ? [...items, footwear] : items
+          });
+        }
 
-      analysisCanvas.width = canvas.width;
-      analysisCanvas.height = canvas.height;
-      analysisCtx.drawImage(videoRef.current, 0, 0);
-      
-      const imageData = analysisCtx.getImageData(0, 0, analysisCanvas.width, analysisCanvas.height);
-      const colorAnalysis = analyzeImageColors(imageData);
+        const classification = await classifyStyle(cropRegion(canvas, newAnalysis.region), {
+          classifier: styleClassifier,
+          fallbackStyle: newAnalysis.style
+        });
+        if (classification.error) console.error('Error classifying style:', classification.error);
+        newAnalysis = applyStyleClassification(newAnalysis, classification);
+      }
       
       await new Promise(resolve => setTimeout(resolve, 2000));
 
-      const newAnalysis: OutfitAnalysis = {
-        score: colorAnalysis.score,
-        style: colorAnalysis.style,
-        colors: colorAnalysis.dominantColors,
-        suggestions: colorAnalysis.suggestions,
-        confidence: colorAnalysis.confidence
-      };
-
       setAnalysis(newAnalysis);
+      setShowRawColors(false);
       setShowResults(true);
     } catch (error) {
       console.error('Error analyzing outfit:', error);
@@ -180,9 +615,74 @@ const SmartMirror = () => {
     }
   };
 
+  const choosingPerson = people.length > 1 && selectedPerson === null && !groupAnalysis;
+
+  // Number keys choose a person while the boxes are shown; Escape cancels
+  useEffect(() => {
+    if (!choosingPerson) return;
+
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') {
+        cancelPersonPick();
+        return;
+      }
+      if (event.key.toLowerCase() === 'g') {
+        analyzeGroupFrame();
+        return;
+      }
+      const index = Number(event.key) - 1;
+      if (Number.isInteger(index) && index >= 0 && index < people.length) selectPerson(index);
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  });
+
+  // Pasting an image anywhere on the page analyzes it
+  useEffect(() => {
+    const onPaste = (event: ClipboardEvent) => {
+      const file = imageFileFrom(event.clipboardData);
+      if (!file) return;
+      event.preventDefault();
+      analyzeImageFile(file, 'paste');
+    };
+    window.addEventListener('paste', onPaste);
+    return () => window.removeEventListener('paste', onPaste);
+  });
+
+  const handleDrop = (event: React.DragEvent<HTMLDivElement>) => {
+    event.preventDefault();
+    setIsDragging(false);
+    const file = imageFileFrom(event.dataTransfer);
+    if (file) analyzeImageFile(file, 'drop');
+    else toast.error('Drop an image file to analyze it');
+  };
+
+  const handleUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (file) analyzeImageFile(file, 'upload');
+  };
+
+  const mirrored = frame?.mirrored ?? true;
+
+  // Map a tap on the view back to frame pixels and pick the person under it
+  const handleOverlayClick = (event: React.MouseEvent<HTMLDivElement>) => {
+    if (!choosingPerson || !frame || event.target !== event.currentTarget) return;
+
+    const rect = event.currentTarget.getBoundingClientRect();
+    const { scaleX, scaleY, offsetX, offsetY } = viewMapping(
+      frame.canvas.width, frame.canvas.height, rect.width, rect.height, !frame.mirrored
+    );
+    const viewX = frame.mirrored ? rect.right - event.clientX : event.clientX - rect.left;
+    const x = (viewX - offsetX) / scaleX;
+    const y = (event.clientY - rect.top - offsetY) / scaleY;
+    const index = detectionAt(people, x, y);
+    if (index >= 0) selectPerson(index);
+  };
+
   // Draw person highlight overlay
   useEffect(() => {
-    if (!canvasRef.current || !videoRef.current || !personDetected) return;
+    if (!canvasRef.current || !videoRef.current) return;
 
     const canvas = canvasRef.current;
     const ctx = canvas.getContext('2d');
@@ -195,9 +695,55 @@ const SmartMirror = () => {
     // Clear canvas
     ctx.clearRect(0, 0, canvas.width, canvas.height);
 
-    // Calculate scale factors
-    const scaleX = canvas.width / videoRef.current.videoWidth;
-    const scaleY = canvas.height / videoRef.current.videoHeight;
+    // Calculate scale factors for the frame on screen (the camera's, or a still's)
+    const frameWidth = frame?.canvas.width ?? videoRef.current.videoWidth;
+    const frameHeight = frame?.canvas.height ?? videoRef.current.videoHeight;
+    const { scaleX, scaleY, offsetX, offsetY } = viewMapping(
+      frameWidth, frameHeight, canvas.width, canvas.height, !mirrored
+    );
+    ctx.translate(offsetX, offsetY);
+
+    // Number every person box while waiting for a pick. A mirrored canvas
+    // flips the labels too, so they are flipped back to stay readable.
+    if (choosingPerson) {
+      ctx.strokeStyle = OVERLAY_COLOR;
+      ctx.lineWidth = 3;
+      ctx.setLineDash([]);
+      ctx.font = 'bold 16px sans-serif';
+      people.forEach(({ bbox: [x, y, width, height] }, index) => {
+        ctx.strokeRect(x * scaleX, y * scaleY, width * scaleX, height * scaleY);
+        const left = mirrored ? -(x + width) * scaleX : x * scaleX;
+        ctx.save();
+        if (mirrored) ctx.scale(-1, 1);
+        ctx.fillStyle = OVERLAY_COLOR;
+        ctx.fillRect(left, y * scaleY, 28, 28);
+        ctx.fillStyle = 'white';
+        ctx.fillText(String(index + 1), left + 9, y * scaleY + 20);
+        ctx.restore();
+      });
+      return;
+    }
+
+    if (!personDetected) return;
+
+    // Paint the clothing mask so users can see which pixels were counted
+    if (clothingMask && showMask) {
+      const maskCanvas = document.createElement('canvas');
+      const maskCtx = maskCanvas.getContext('2d');
+      if (maskCtx) {
+        maskCanvas.width = clothingMask.width;
+        maskCanvas.height = clothingMask.height;
+        const pixels = maskCtx.createImageData(clothingMask.width, clothingMask.height);
+        for (let i = 0; i < clothingMask.data.length; i++) {
+          pixels.data[i * 4] = MASK_TINT[0];
+          pixels.data[i * 4 + 1] = MASK_TINT[1];
+          pixels.data[i * 4 + 2] = MASK_TINT[2];
+          pixels.data[i * 4 + 3] = clothingMask.data[i] * 0.45;
+        }
+        maskCtx.putImageData(pixels, 0, 0);
+        ctx.drawImage(maskCanvas, 0, 0, frameWidth * scaleX, frameHeight * scaleY);
+      }
+    }
 
     // Draw person highlight
     const [x, y, width, height] = personDetected.bbox;
@@ -218,7 +764,32 @@ const SmartMirror = () => {
     ctx.fillStyle = 'white';
     ctx.font = '12px sans-serif';
     ctx.fillText(`Person: ${Math.round(personDetected.confidence * 100)}%`, scaledX + 5, scaledY - 10);
-  }, [personDetected]);
+
+    // Draw the pose skeleton over the person
+    if (pose.length > 0 && showPose) {
+      const point = (name: string) =>
+        pose.find((keypoint) => keypoint.name === name && keypoint.score >= MIN_KEYPOINT_SCORE);
+      ctx.strokeStyle = OVERLAY_COLOR;
+      ctx.fillStyle = OVERLAY_COLOR;
+      ctx.lineWidth = 2;
+      ctx.setLineDash([]);
+      for (const [from, to] of SKELETON_EDGES) {
+        const start = point(from);
+        const end = point(to);
+        if (!start || !end) continue;
+        ctx.beginPath();
+        ctx.moveTo(start.x * scaleX, start.y * scaleY);
+        ctx.lineTo(end.x * scaleX, end.y * scaleY);
+        ctx.stroke();
+      }
+      for (const keypoint of pose) {
+        if (keypoint.score < MIN_KEYPOINT_SCORE) continue;
+        ctx.beginPath();
+        ctx.arc(keypoint.x * scaleX, keypoint.y * scaleY, 4, 0, Math.PI * 2);
+        ctx.fill();
+      }
+    }
+  }, [personDetected, clothingMask, showMask, pose, showPose, people, choosingPerson, frame, mirrored]);
 
   const getScoreColor = (score: number) => {
     if (score >= 9) return 'text-green-400';
@@ -227,133 +798,15 @@ const SmartMirror = () => {
     return 'text-red-400';
   };
 
-  const analyzeImageColors = (imageData: ImageData) => {
-    const data = imageData.data;
-    const colorCounts: { [key: string]: number } = {};
-    let totalBrightness = 0;
-    let contrastScore = 0;
-    let colorVariety = 0;
-
-    // Sample pixels (every 50th pixel for performance)
-    for (let i = 0; i < data.length; i += 200) {
-      const r = data[i];
-      const g = data[i + 1];
-      const b = data[i + 2];
-      
-      const brightness = (r * 0.299 + g * 0.587 + b * 0.114) / 255;
-      totalBrightness += brightness;
-      
-      // Categorize colors
-      const hue = rgbToHue(r, g, b);
-      const colorCategory = getColorCategory(hue, brightness);
-      colorCounts[colorCategory] = (colorCounts[colorCategory] || 0) + 1;
-    }
-
-    const avgBrightness = totalBrightness / (data.length / 4);
-    const dominantColors = Object.keys(colorCounts)
-      .sort((a, b) => colorCounts[b] - colorCounts[a])
-      .slice(0, 3);
-
-    colorVariety = Object.keys(colorCounts).length;
-    contrastScore = calculateContrast(colorCounts, avgBrightness);
-
-    // Calculate score based on harmony, contrast, and brightness
-    let score = 5; // Base score
-    
-    // Brightness optimization (0.3-0.7 is ideal)
-    if (avgBrightness >= 0.3 && avgBrightness <= 0.7) score += 2;
-    else if (avgBrightness >= 0.2 && avgBrightness <= 0.8) score += 1;
-    
-    // Color harmony (2-4 colors is ideal)
-    if (colorVariety >= 2 && colorVariety <= 4) score += 2;
-    else if (colorVariety >= 1 && colorVariety <= 5) score += 1;
-    
-    // Contrast score
-    score += Math.min(contrastScore, 2);
-    
-    // Style determination
-    const style = determineStyle(dominantColors, avgBrightness);
-    
-    // Generate suggestions
-    const suggestions = generateSuggestions(dominantColors, avgBrightness, contrastScore);
-
-    return {
-      score: Math.min(Math.max(Math.round(score), 1), 10),
-      style,
-      dominantColors,
-      suggestions,
-      confidence: Math.round(85 + (score - 5) * 3)
-    };
-  };
-
-  const rgbToHue = (r: number, g: number, b: number) => {
-    r /= 255; g /= 255; b /= 255;
-    const max = Math.max(r, g, b), min = Math.min(r, g, b);
-    const diff = max - min;
-    let hue = 0;
-    
-    if (diff !== 0) {
-      switch (max) {
-        case r: hue = ((g - b) / diff) % 6; break;
-        case g: hue = (b - r) / diff + 2; break;
-        case b: hue = (r - g) / diff + 4; break;
-      }
-    }
-    return Math.round(hue * 60);
-  };
-
-  const getColorCategory = (hue: number, brightness: number) => {
-    if (brightness < 0.2) return 'Black';
-    if (brightness > 0.8) return 'White';
-    
-    if (hue >= 0 && hue < 30) return 'Red';
-    if (hue >= 30 && hue < 60) return 'Orange';
-    if (hue >= 60 && hue < 120) return 'Green';
-    if (hue >= 120 && hue < 180) return 'Cyan';
-    if (hue >= 180 && hue < 240) return 'Blue';
-    if (hue >= 240 && hue < 300) return 'Purple';
-    return 'Pink';
-  };
-
-  const calculateContrast = (colorCounts: { [key: string]: number }, avgBrightness: number) => {
-    const hasLight = avgBrightness > 0.6;
-    const hasDark = avgBrightness < 0.4;
-    return hasLight && hasDark ? 2 : hasLight || hasDark ? 1 : 0;
-  };
-
-  const determineStyle = (colors: string[], brightness: number) => {
-    const colorSet = new Set(colors);
-    
-    if (colorSet.has('Black') && colorSet.has('White')) return 'Professional';
-    if (colorSet.has('Blue') && (colorSet.has('White') || colorSet.has('Black'))) return 'Business Casual';
-    if (brightness > 0.7) return 'Fresh & Light';
-    if (colors.includes('Red') || colors.includes('Orange')) return 'Bold & Confident';
-    if (colorSet.has('Green')) return 'Natural & Relaxed';
-    if (brightness < 0.3) return 'Elegant & Sophisticated';
-    return 'Casual';
-  };
-
-  const generateSuggestions = (colors: string[], brightness: number, contrast: number) => {
-    const suggestions = [];
-    
-    if (brightness < 0.3) suggestions.push('Try adding a lighter accent piece for better balance');
-    if (brightness > 0.8) suggestions.push('Consider a darker accessory for contrast');
-    if (contrast < 1) suggestions.push('Add more contrast with different tones');
-    if (colors.length < 2) suggestions.push('Introduce a complementary color');
-    if (colors.length > 4) suggestions.push('Simplify with fewer colors for cleaner look');
-    
-    const positives = [
-      'Great color coordination!',
-      'Nice style choice!',
-      'Well-balanced outfit!'
-    ];
-    
-    if (suggestions.length === 0) {
-      suggestions.push(positives[Math.floor(Math.random() * positives.length)]);
-    }
-    
-    return suggestions.slice(0, 2);
-  };
+  const renderColorBadge = (color: string) => (
+    <Badge key={color} variant="secondary" className="text-xs gap-1.5">
+      <span
+        className="w-2.5 h-2.5 rounded-full border border-border"
+        style={{ backgroundColor: getFashionColor(color)?.hex }}
+      />
+      {color}
+    </Badge>
+  );
 
   const renderStars = (score: number) => {
     return Array.from({ length: 5 }, (_, i) => (
@@ -373,8 +826,18 @@ const SmartMirror = () => {
       {/* Background glow effects */}
       <div className="absolute inset-0 bg-gradient-glow opacity-30"></div>
       
-      {/* Mirror frame */}
-      <div className="relative h-screen p-8">
+      {/* Mirror frame; photos can be dropped anywhere on it */}
+      <div
+        className="relative h-screen p-8"
+        onDragOver={(event) => {
+          event.preventDefault();
+          setIsDragging(true);
+        }}
+        onDragLeave={(event) => {
+          if (!event.currentTarget.contains(event.relatedTarget as Node)) setIsDragging(false);
+        }}
+        onDrop={handleDrop}
+      >
         <div className="h-full bg-gradient-glass backdrop-blur-sm rounded-3xl border border-border shadow-mirror relative overflow-hidden">
           
           {/* Camera feed */}
@@ -386,31 +849,97 @@ const SmartMirror = () => {
               muted
               className="w-full h-full object-cover scale-x-[-1]"
             />
+
+            {/* Uploaded, dropped or pasted photo, shown in place of the feed */}
+            {stillImage && (
+              <img
+                src={stillImage}
+                alt="Photo being analyzed"
+                className="absolute inset-0 w-full h-full object-contain bg-mirror-surface"
+              />
+            )}
             
             {/* Person detection overlay canvas */}
             <canvas
               ref={canvasRef}
-              className="absolute inset-0 w-full h-full scale-x-[-1] pointer-events-none"
+              className={`absolute inset-0 w-full h-full pointer-events-none ${mirrored ? 'scale-x-[-1]' : ''}`}
             />
+
+            {/* Drop target hint */}
+            {isDragging && (
+              <div className="absolute inset-0 z-10 flex items-center justify-center bg-background/70 border-2 border-dashed border-primary rounded-2xl pointer-events-none">
+                <div className="flex items-center gap-2 text-lg font-medium">
+                  <Upload className="w-5 h-5 text-primary" />
+                  Drop a photo to analyze it
+                </div>
+              </div>
+            )}
             
             {/* Overlay UI */}
-            <div className="absolute inset-0 bg-gradient-to-t from-background/80 via-transparent to-transparent">
+            <div
+              className={`absolute inset-0 bg-gradient-to-t from-background/80 via-transparent to-transparent ${choosingPerson ? 'cursor-pointer' : ''}`}
+              onClick={handleOverlayClick}
+            >
               
               {/* Header */}
               <div className="absolute top-6 left-6 right-6 flex justify-between items-start">
                 <div className="flex items-center gap-3">
                   <div className="w-3 h-3 bg-primary rounded-full animate-pulse shadow-glow"></div>
                   <span className="text-sm font-medium text-foreground/80">
-                    Smart Mirror Active {personDetected && `- Person Detected`}
+                    {cameraActive ? 'Smart Mirror Active' : 'No camera: upload, drop or paste a photo'}
+                    {personDetected && ' - Person Detected'}
                   </span>
                 </div>
                 
-                {cameraActive && (
-                  <Badge variant="secondary" className="bg-primary/20 text-primary border-primary/30">
-                    <Camera className="w-3 h-3 mr-1" />
-                    Live
-                  </Badge>
-                )}
+                <div className="flex items-center gap-3">
+                  <div className="flex items-center gap-2">
+                    <Switch
+                      id="personal-color"
+                      checked={userProfile.personalColorEnabled}
+                      onCheckedChange={setPersonalColorEnabled}
+                    />
+                    <Label htmlFor="personal-color" className="text-xs">My Colors</Label>
+                  </div>
+                  <Select value={userProfile.occasionId} onValueChange={selectOccasion}>
+                    <SelectTrigger className="w-36 h-8 bg-background/40 backdrop-blur-md text-xs">
+                      <SelectValue placeholder="Occasion" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {OCCASION_PRESETS.map((occasion) => (
+                        <SelectItem key={occasion.id} value={occasion.id} className="text-xs">
+                          {occasion.label}
+                        </SelectItem>
+                      ))}
+                      {userProfile.customOccasions.map((occasion) => (
+                        <SelectItem key={occasion.id} value={occasion.id} className="text-xs">
+                          {occasion.label}
+                        </SelectItem>
+                      ))}
+                      <SelectItem value={NEW_OCCASION} className="text-xs text-primary">
+                        Custom occasion…
+                      </SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <Select value={profileId} onValueChange={(value) => setProfileId(value as ProfileId)}>
+                    <SelectTrigger className="w-36 h-8 bg-background/40 backdrop-blur-md text-xs">
+                      <SelectValue placeholder="Scoring profile" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.values(SCORING_PROFILES).map((profile) => (
+                        <SelectItem key={profile.id} value={profile.id} className="text-xs">
+                          {profile.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  {weather && <WeatherBadge weather={weather} />}
+                  {cameraActive && (
+                    <Badge variant="secondary" className="bg-primary/20 text-primary border-primary/30">
+                      <Camera className="w-3 h-3 mr-1" />
+                      Live
+                    </Badge>
+                  )}
+                </div>
               </div>
 
               {/* Captured Image Preview */}
@@ -439,14 +968,18 @@ const SmartMirror = () => {
                           <Sparkles className="w-6 h-6 text-primary" />
                           <span className="text-lg font-semibold">Outfit Analysis</span>
                         </div>
-                        <div className="text-right">
-                          <div className={`text-3xl font-bold ${getScoreColor(analysis.score)}`}>
-                            {analysis.score}/10
-                          </div>
-                          <div className="flex gap-1 mt-1">
-                            {renderStars(analysis.score)}
+                        {analysis.personFound ? (
+                          <div className="text-right">
+                            <div className={`text-3xl font-bold ${getScoreColor(analysis.score)}`}>
+                              {analysis.score}/10
+                            </div>
+                            <div className="flex gap-1 mt-1">
+                              {renderStars(analysis.score)}
+                            </div>
                           </div>
-                        </div>
+                        ) : (
+                          <span className="text-sm text-muted-foreground">No person detected</span>
+                        )}
                       </div>
                       
                       <div className="grid grid-cols-2 gap-4">
@@ -469,13 +1002,7 @@ const SmartMirror = () => {
                         <Palette className="w-4 h-4 text-accent" />
                         <span className="text-sm font-medium">Color Palette</span>
                       </div>
-                      <div className="flex gap-2">
-                        {analysis.colors.map((color, index) => (
-                          <Badge key={index} variant="secondary" className="text-xs">
-                            {color}
-                          </Badge>
-                        ))}
-                      </div>
+                      <PaletteSwatches palette={analysis.palette} showLegend={false} />
                     </div>
                   </Card>
 
@@ -485,9 +1012,9 @@ const SmartMirror = () => {
                       <div className="p-4">
                         <h3 className="text-sm font-medium mb-2 text-accent">Style Suggestions</h3>
                         <div className="space-y-1">
-                          {analysis.suggestions.map((suggestion, index) => (
-                            <p key={index} className="text-xs text-muted-foreground">
-                              • {suggestion}
+                          {analysis.suggestions.slice(0, 2).map((suggestion) => (
+                            <p key={suggestion.ruleId} className="text-xs text-muted-foreground" title={suggestion.ruleId}>
+                              • {suggestion.text}
                             </p>
                           ))}
                         </div>
@@ -511,11 +1038,73 @@ const SmartMirror = () => {
                 </div>
               )}
 
+              {/* Person picker prompt */}
+              {choosingPerson && !isAnalyzing && (
+                <div className="absolute bottom-24 left-6 right-6">
+                  <Card className="bg-gradient-glass backdrop-blur-md border-border/50">
+                    <div className="p-4 flex items-center justify-between gap-3">
+                      <div className="flex items-center gap-3">
+                        <Users className="w-5 h-5 text-primary" />
+                        <p className="text-sm">
+                          {people.length} people in frame. Tap a box or press 1–{people.length} to choose who to analyze,
+                          or G to score the group together.
+                        </p>
+                      </div>
+                      <div className="flex gap-2">
+                        <Button size="sm" onClick={analyzeGroupFrame}>
+                          <Users className="w-4 h-4 mr-2" />
+                          Analyze Group
+                        </Button>
+                        <Button variant="ghost" size="sm" onClick={cancelPersonPick}>
+                          Cancel
+                        </Button>
+                      </div>
+                    </div>
+                  </Card>
+                </div>
+              )}
+
               {/* Manual analysis button */}
-              <div className="absolute bottom-6 right-6">
+              <div className="absolute bottom-6 right-6 flex gap-2">
+                {clothingMask && (
+                  <Button
+                    variant="outline"
+                    onClick={() => setShowMask(!showMask)}
+                    className="bg-background/40 backdrop-blur-md"
+                  >
+                    <Layers className="w-4 h-4 mr-2" />
+                    {showMask ? 'Hide Mask' : 'Show Mask'}
+                  </Button>
+                )}
+                {pose.length > 0 && (
+                  <Button
+                    variant="outline"
+                    onClick={() => setShowPose(!showPose)}
+                    className="bg-background/40 backdrop-blur-md"
+                  >
+                    <PersonStanding className="w-4 h-4 mr-2" />
+                    {showPose ? 'Hide Pose' : 'Show Pose'}
+                  </Button>
+                )}
+                <Button
+                  variant="outline"
+                  onClick={() => uploadRef.current?.click()}
+                  disabled={isAnalyzing || !detector || choosingPerson}
+                  className="bg-background/40 backdrop-blur-md"
+                >
+                  <Upload className="w-4 h-4 mr-2" />
+                  Upload Photo
+                </Button>
+                <input
+                  ref={uploadRef}
+                  type="file"
+                  accept="image/*"
+                  className="hidden"
+                  onChange={handleUpload}
+                />
                 <Button
                   onClick={analyzeOutfit}
-                  disabled={isAnalyzing || !detector}
+                  disabled={isAnalyzing || !detector || choosingPerson || !cameraActive}
                   className="bg-gradient-primary hover:shadow-glow transition-all duration-300"
                 >
                   <Sparkles className="w-4 h-4 mr-2" />
@@ -530,11 +1119,7 @@ const SmartMirror = () => {
       {/* Results Modal */}
       <Dialog open={showResults} onOpenChange={(open) => {
         if (!open) {
-          // Clear all analysis data when modal closes
-          setShowResults(false);
-          setAnalysis(null);
-          setCapturedImage(null);
-          setPersonDetected(null);
+          closeResults();
         } else {
           setShowResults(open);
         }
@@ -544,6 +1129,11 @@ const SmartMirror = () => {
             <DialogTitle className="flex items-center gap-2 text-2xl">
               <Sparkles className="w-6 h-6 text-primary" />
               Outfit Analysis Results
+              {frame && (
+                <Badge variant="outline" className="ml-auto mr-6 text-xs font-normal" title={frame.name ?? undefined}>
+                  {IMAGE_SOURCE_LABELS[frame.source]}
+                </Badge>
+              )}
             </DialogTitle>
           </DialogHeader>
           
@@ -558,12 +1148,87 @@ const SmartMirror = () => {
                     alt="Analyzed outfit" 
                     className="w-full h-auto object-cover"
                   />
+                  {analysis.region && (
+                    <div
+                      className="absolute border-2 border-dashed border-primary pointer-events-none"
+                      style={{
+                        left: `${(analysis.region.x / analysis.frame.width) * 100}%`,
+                        top: `${(analysis.region.y / analysis.frame.height) * 100}%`,
+                        width: `${(analysis.region.width / analysis.frame.width) * 100}%`,
+                        height: `${(analysis.region.height / analysis.frame.height) * 100}%`
+                      }}
+                    />
+                  )}
+                  {analysis.items.map((item, index) => (
+                    <div
+                      key={`${item.rawLabel}-${index}`}
+                      className="absolute border border-accent pointer-events-none"
+                      style={{
+                        left: `${(item.bbox[0] / analysis.frame.width) * 100}%`,
+                        top: `${(item.bbox[1] / analysis.frame.height) * 100}%`,
+                        width: `${(item.bbox[2] / analysis.frame.width) * 100}%`,
+                        height: `${(item.bbox[3] / analysis.frame.height) * 100}%`
+                      }}
+                    >
+                      <span className="absolute -top-4 left-0 bg-accent/80 text-white px-1 rounded text-[10px] whitespace-nowrap">
+                        {item.label}
+                      </span>
+                    </div>
+                  ))}
+                  {analysis.region && analysis.proportions && (
+                    [
+                      { label: 'Split', y: analysis.proportions.splitY },
+                      { label: 'Hem', y: analysis.proportions.hem !== 'ankle' ? analysis.proportions.hemY : null }
+                    ]
+                      .filter((line) => line.y !== null)
+                      .map((line) => (
+                        <div
+                          key={line.label}
+                          className="absolute border-t border-dashed border-accent pointer-events-none"
+                          style={{
+                            left: `${(analysis.region.x / analysis.frame.width) * 100}%`,
+                            top: `${(line.y / analysis.frame.height) * 100}%`,
+                            width: `${(analysis.region.width / analysis.frame.width) * 100}%`
+                          }}
+                        >
+                          <span className="absolute -top-4 right-0 bg-accent/80 text-white px-1 rounded text-[10px]">
+                            {line.label}
+                          </span>
+                        </div>
+                      ))
+                  )}
+                  {people.length > 1 && people.map((person, index) => (
+                    <div
+                      key={index}
+                      className={`absolute border pointer-events-none ${index === selectedPerson ? 'border-primary' : 'border-white/40'}`}
+                      style={{
+                        left: `${(person.bbox[0] / analysis.frame.width) * 100}%`,
+                        top: `${(person.bbox[1] / analysis.frame.height) * 100}%`,
+                        width: `${(person.bbox[2] / analysis.frame.width) * 100}%`,
+                        height: `${(person.bbox[3] / analysis.frame.height) * 100}%`
+                      }}
+                    >
+                      <span
+                        className={`absolute top-0 left-0 px-1.5 rounded-br text-xs font-semibold text-white ${index === selectedPerson ? 'bg-primary' : 'bg-black/50'}`}
+                      >
+                        {index + 1}
+                      </span>
+                    </div>
+                  ))}
                   {personDetected && (
                     <div className="absolute top-2 right-2 bg-primary/80 text-white px-2 py-1 rounded text-xs">
-                      Person Detected: {Math.round(personDetected.confidence * 100)}%
+                      {people.length > 1 && selectedPerson !== null
+                        ? `Person ${selectedPerson + 1} of ${people.length}: `
+                        : 'Person Detected: '}
+                      {Math.round(personDetected.confidence * 100)}%
                     </div>
                   )}
                 </div>
+                <p className="text-xs text-muted-foreground">
+                  {analysis.region
+                    ? `Analyzed region: ${analysis.region.width}×${analysis.region.height}px at (${analysis.region.x}, ${analysis.region.y}), ${Math.round(regionCoverage(analysis.region, analysis.frame.width, analysis.frame.height) * 100)}% of the frame${analysis.masked ? ', clothing pixels only' : ''}`
+                    : 'No person found in the frame, so nothing was analyzed'}
+                </p>
               </div>
 
               {/* Analysis Results */}
@@ -575,15 +1240,22 @@ const SmartMirror = () => {
                   <div className="p-4">
                     <div className="flex items-center justify-between mb-3">
                       <span className="text-sm font-medium">Overall Score</span>
-                      <div className="text-right">
-                        <div className={`text-2xl font-bold ${getScoreColor(analysis.score)}`}>
-                          {analysis.score}/10
-                        </div>
-                        <div className="flex gap-1 mt-1 justify-end">
-                          {renderStars(analysis.score)}
+                      {analysis.personFound ? (
+                        <div className="text-right">
+                          <div className={`text-2xl font-bold ${getScoreColor(analysis.score)}`}>
+                            {analysis.score}/10
+                          </div>
+                          <div className="flex gap-1 mt-1 justify-end">
+                            {renderStars(analysis.score)}
+                          </div>
                         </div>
-                      </div>
+                      ) : (
+                        <span className="text-sm text-muted-foreground">Not scored</span>
+                      )}
                     </div>
+                    {analysis.breakdown.length > 0 && (
+                      <ScoreBreakdownChart breakdown={analysis.breakdown} />
+                    )}
                   </div>
                 </Card>
 
@@ -597,43 +1269,292 @@ const SmartMirror = () => {
                       </div>
                       <Badge variant="secondary">{analysis.style}</Badge>
                     </div>
+                    {analysis.styleClassification?.source === 'model' ? (
+                      <div className="space-y-1 pl-6">
+                        {analysis.styleClassification.predictions.slice(0, 3).map((prediction) => (
+                          <div key={prediction.label} className="flex items-center gap-2 text-xs text-muted-foreground">
+                            <span className="w-28 truncate">{prediction.label}</span>
+                            <div className="flex-1 h-1.5 rounded-full bg-muted overflow-hidden">
+                              <div
+                                className="h-full bg-primary"
+                                style={{ width: `${Math.round(prediction.probability * 100)}%` }}
+                              />
+                            </div>
+                            <span className="w-8 text-right">{Math.round(prediction.probability * 100)}%</span>
+                          </div>
+                        ))}
+                      </div>
+                    ) : analysis.styleClassification && (
+                      <p className="text-xs text-muted-foreground pl-6">Estimated from your colors (style model unavailable)</p>
+                    )}
+                    <div className="flex items-center justify-between">
+                      <div className="flex items-center gap-2">
+                        <Star className="w-4 h-4 text-muted-foreground" />
+                        <span className="text-sm font-medium">Scoring Profile</span>
+                      </div>
+                      <span className="text-sm font-semibold">{getScoringProfile(analysis.profile).label}</span>
+                    </div>
+                    {analysis.occasion && (
+                      <div className="flex items-center justify-between">
+                        <div className="flex items-center gap-2">
+                          <Sparkles className="w-4 h-4 text-muted-foreground" />
+                          <span className="text-sm font-medium">Occasion</span>
+                        </div>
+                        <span className="text-sm font-semibold">
+                          {analysis.occasion.label}
+                          {analysis.occasion.expectedFormality !== null && (
+                            <span className="text-muted-foreground font-normal">
+                              {' '}({Math.round(analysis.occasion.formality * 100)}% formal,
+                              {' '}{Math.round(analysis.occasion.expectedFormality * 100)}% expected)
+                            </span>
+                          )}
+                        </span>
+                      </div>
+                    )}
+                    {analysis.contrast && (
+                      <div className="flex items-center justify-between">
+                        <div className="flex items-center gap-2">
+                          <Layers className="w-4 h-4 text-muted-foreground" />
+                          <span className="text-sm font-medium">Contrast</span>
+                        </div>
+                        <span className="text-sm font-semibold capitalize">
+                          {analysis.contrast.level}
+                          <span className="text-muted-foreground font-normal normal-case">
+                            {' '}({analysis.contrast.ratio.toFixed(1)}:1)
+                          </span>
+                        </span>
+                      </div>
+                    )}
+                    {analysis.harmony && (
+                      <div className="flex items-center justify-between">
+                        <div className="flex items-center gap-2">
+                          <Palette className="w-4 h-4 text-muted-foreground" />
+                          <span className="text-sm font-medium">Color Harmony</span>
+                        </div>
+                        <span className="text-sm font-semibold">
+                          {analysis.harmony.label}
+                          {analysis.harmony.scheme !== 'none' && (
+                            <span className="text-muted-foreground font-normal">
+                              {' '}({Math.round(analysis.harmony.closeness * 100)}% match)
+                            </span>
+                          )}
+                        </span>
+                      </div>
+                    )}
                     <div className="flex items-center justify-between">
                       <div className="flex items-center gap-2">
                         <TrendingUp className="w-4 h-4 text-muted-foreground" />
-                        <span className="text-sm font-medium">AI Confidence</span>
+                        <span className="text-sm font-medium">Analysis Confidence</span>
                       </div>
                       <span className="text-sm font-semibold">{analysis.confidence}%</span>
                     </div>
+                    {limitingFactors(analysis.confidenceFactors).map((factor) => (
+                      <p key={factor.id} className="text-xs text-muted-foreground pl-6">
+                        <span className="text-yellow-400">{factor.label} {Math.round(factor.quality * 100)}%:</span>
+                        {' '}{factor.detail}
+                      </p>
+                    ))}
                   </div>
                 </Card>
 
                 {/* Color Palette */}
                 <Card className="bg-gradient-glass backdrop-blur-md border-border/50">
                   <div className="p-4">
-                    <div className="flex items-center gap-2 mb-3">
-                      <Palette className="w-4 h-4 text-accent" />
-                      <span className="text-sm font-medium">Detected Colors</span>
-                    </div>
-                    <div className="flex flex-wrap gap-2">
-                      {analysis.colors.map((color, index) => (
-                        <Badge key={index} variant="secondary" className="text-xs">
-                          {color}
-                        </Badge>
-                      ))}
+                    <div className="flex items-center justify-between mb-3">
+                      <div className="flex items-center gap-2">
+                        <Palette className="w-4 h-4 text-accent" />
+                        <span className="text-sm font-medium">Detected Colors</span>
+                      </div>
+                      {analysis.correction && !isIdentityCorrection(analysis.correction) && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-6 px-2 text-xs"
+                          onClick={() => setShowRawColors(!showRawColors)}
+                        >
+                          {showRawColors ? 'Show Corrected' : 'Show Raw'}
+                        </Button>
+                      )}
                     </div>
+                    <PaletteSwatches palette={showRawColors ? analysis.rawPalette : analysis.palette} />
+                    {analysis.correction && !isIdentityCorrection(analysis.correction) && (
+                      <p className="text-xs text-muted-foreground mt-2">
+                        {showRawColors ? 'Raw camera colors' : 'Lighting corrected'}
+                        {' '}({analysis.correction.method === 'white-patch' ? 'white patch' : 'gray world'}:
+                        R×{analysis.correction.gains[0].toFixed(2)} G×{analysis.correction.gains[1].toFixed(2)}
+                        {' '}B×{analysis.correction.gains[2].toFixed(2)}, exposure ×{analysis.correction.exposure.toFixed(2)})
+                      </p>
+                    )}
                   </div>
                 </Card>
 
+                {/* Personal Colors */}
+                {analysis.personalColor && userProfile.personalColor && (
+                  <Card className="bg-gradient-glass backdrop-blur-md border-border/50">
+                    <div className="p-4 space-y-3">
+                      <div className="flex items-center justify-between">
+                        <div className="flex items-center gap-2">
+                          <Sparkles className="w-4 h-4 text-accent" />
+                          <span className="text-sm font-medium">Colors That Flatter You</span>
+                        </div>
+                        <Badge variant="secondary">{analysis.personalColor.label}</Badge>
+                      </div>
+                      <p className="text-xs text-muted-foreground">
+                        {SEASONAL_PALETTES[analysis.personalColor.season].description}. Undertone: {userProfile.personalColor.undertone},
+                        {' '}based on {userProfile.personalColor.samples} capture{userProfile.personalColor.samples === 1 ? '' : 's'}
+                        {userProfile.personalColor.samples < SETTLED_TONE_SAMPLES && ' (analyze a few more times to settle it)'}
+                      </p>
+                      <PaletteSwatches palette={seasonalSwatches(analysis.personalColor.season)} showCoverage={false} />
+                      {analysis.personalColor.unflattering.length > 0 && (
+                        <p className="text-xs text-muted-foreground">
+                          Outside your palette: {analysis.personalColor.unflattering.join(', ')}
+                        </p>
+                      )}
+                      <Button variant="ghost" size="sm" className="h-6 px-2 text-xs" onClick={resetPersonalColor}>
+                        Reset My Colors
+                      </Button>
+                    </div>
+                  </Card>
+                )}
+
+                {/* Garments */}
+                {analysis.garments.length > 0 && (
+                  <div className="grid grid-cols-2 gap-3">
+                    {analysis.garments.map((garment) => (
+                      <Card key={garment.kind} className="bg-gradient-glass backdrop-blur-md border-border/50">
+                        <div className="p-3 space-y-2">
+                          <div className="flex items-center justify-between">
+                            <div className="flex items-center gap-2">
+                              <Shirt className="w-4 h-4 text-muted-foreground" />
+                              <span className="text-sm font-medium">{garment.label}</span>
+                            </div>
+                            <span className={`text-sm font-semibold ${getScoreColor(garment.score)}`}>
+                              {garment.score}/10
+                            </span>
+                          </div>
+                          <div className="flex flex-wrap gap-1">
+                            {garment.colors.map(renderColorBadge)}
+                          </div>
+                          {garment.pattern && (
+                            <p className="text-xs text-muted-foreground">
+                              {garment.pattern.label} pattern
+                              {garment.pattern.source === 'model' && ` (${Math.round(garment.pattern.confidence * 100)}%)`}
+                            </p>
+                          )}
+                        </div>
+                      </Card>
+                    ))}
+                  </div>
+                )}
+
+                {/* Detected Items */}
+                {analysis.personFound && (
+                  <Card className="bg-gradient-glass backdrop-blur-md border-border/50">
+                    <div className="p-4">
+                      <div className="flex items-center gap-2 mb-3">
+                        <Shirt className="w-4 h-4 text-accent" />
+                        <span className="text-sm font-medium">Items Detected</span>
+                      </div>
+                      {analysis.items.length > 0 ? (
+                        <div className="space-y-1">
+                          {analysis.items.map((item, index) => (
+                            <div key={`${item.rawLabel}-${index}`} className="flex items-center justify-between text-sm">
+                              <span>
+                                {item.label}
+                                <span className="text-xs text-muted-foreground capitalize"> · {item.category}</span>
+                              </span>
+                              <span className="text-xs text-muted-foreground">{Math.round(item.confidence * 100)}%</span>
+                            </div>
+                          ))}
+                        </div>
+                      ) : (
+                        <p className="text-xs text-muted-foreground">
+                          {itemDetector ? 'No individual items recognized' : 'Item detection model unavailable'}
+                        </p>
+                      )}
+                    </div>
+                  </Card>
+                )}
+
+                {/* Proportions */}
+                {analysis.proportions && (
+                  <Card className="bg-gradient-glass backdrop-blur-md border-border/50">
+                    <div className="p-4 space-y-2">
+                      <div className="flex items-center gap-2 mb-1">
+                        <PersonStanding className="w-4 h-4 text-accent" />
+                        <span className="text-sm font-medium">Proportions</span>
+                      </div>
+                      <div className="flex items-center justify-between text-sm">
+                        <span>Top/bottom split</span>
+                        <span className="text-xs text-muted-foreground">
+                          {analysis.proportions.split !== null
+                            ? `${Math.round(analysis.proportions.split * 100)}% · ${BALANCE_LABELS[analysis.proportions.balance]}`
+                            : 'Not measured'}
+                        </span>
+                      </div>
+                      <div className="flex items-center justify-between text-sm">
+                        <span>Hemline</span>
+                        <span className="text-xs text-muted-foreground">
+                          {analysis.proportions.hem ? HEM_LABELS[analysis.proportions.hem] : 'Legs not in frame'}
+                        </span>
+                      </div>
+                    </div>
+                  </Card>
+                )}
+
+                {/* Accessories */}
+                {analysis.accessories.length > 0 && (
+                  <Card className="bg-gradient-glass backdrop-blur-md border-border/50">
+                    <div className="p-4">
+                      <div className="flex items-center gap-2 mb-3">
+                        <Sparkles className="w-4 h-4 text-accent" />
+                        <span className="text-sm font-medium">Accessories</span>
+                      </div>
+                      <div className="space-y-1">
+                        {analysis.accessories.map((accessory, index) => (
+                          <div key={`${accessory.rawLabel}-${index}`} className="flex items-center justify-between text-sm">
+                            <span className="flex items-center gap-2">
+                              {accessory.hex && (
+                                <span
+                                  className="w-3 h-3 rounded-full border border-white/30"
+                                  style={{ backgroundColor: accessory.hex }}
+                                />
+                              )}
+                              {accessory.color ? `${accessory.color} ${accessory.label}` : accessory.label}
+                            </span>
+                            <span className={`text-xs ${accessory.clashes ? 'text-red-400' : 'text-muted-foreground'}`}>
+                              {accessory.clashes ? 'Clashes' : `${Math.round(accessory.confidence * 100)}%`}
+                            </span>
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+                  </Card>
+                )}
+
+                {/* Dress Code */}
+                <DressCodePanel
+                  analysis={analysis}
+                  policies={userProfile.dressCodes}
+                  activePolicyId={userProfile.activeDressCodeId}
+                  onSelect={selectDressCode}
+                  onImport={importDressCode}
+                />
+
                 {/* Suggestions */}
                 {analysis.suggestions.length > 0 && (
                   <Card className="bg-gradient-glass backdrop-blur-md border-border/50">
                     <div className="p-4">
                       <h4 className="text-sm font-medium mb-3 text-accent">Style Suggestions</h4>
                       <div className="space-y-2">
-                        {analysis.suggestions.map((suggestion, index) => (
-                          <p key={index} className="text-sm text-muted-foreground flex items-start gap-2">
-                            <span className="text-primary mt-1">•</span>
-                            {suggestion}
+                        {analysis.suggestions.map((suggestion) => (
+                          <p
+                            key={suggestion.ruleId}
+                            className="text-sm text-muted-foreground flex items-start gap-2"
+                            title={suggestion.ruleId}
+                          >
+                            <span className={`${SEVERITY_COLORS[suggestion.severity]} mt-1`}>•</span>
+                            {suggestion.text}
                           </p>
                         ))}
                       </div>
@@ -644,19 +1565,14 @@ const SmartMirror = () => {
                 {/* Action Buttons */}
                 <div className="flex gap-2 pt-2">
                   <Button 
-                    onClick={() => setShowResults(false)}
+                    onClick={hideResults}
                     variant="outline"
                     className="flex-1"
                   >
                     Close Results
                   </Button>
                   <Button 
-                    onClick={() => {
-                      setShowResults(false);
-                      setAnalysis(null);
-                      setCapturedImage(null);
-                      setPersonDetected(null);
-                    }}
+                    onClick={closeResults}
                     className="flex-1 bg-gradient-primary"
                   >
                     Analyze Again
@@ -667,6 +1583,20 @@ const SmartMirror = () => {
           )}
         </DialogContent>
       </Dialog>
+
+      <GroupResultsDialog
+        open={!!groupAnalysis}
+        onOpenChange={(open) => !open && closeGroupResults()}
+        group={groupAnalysis}
+        image={capturedImage}
+        source={frame?.source ?? null}
+      />
+
+      <CustomOccasionDialog
+        open={showOccasionDialog}
+        onOpenChange={setShowOccasionDialog}
+        onCreate={addCustomOccasion}
+      />
     </div>
   );
 };
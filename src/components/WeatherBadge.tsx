@@ -0,0 +1,30 @@
+import { CloudDrizzle, CloudRain, Snowflake, Sun, Wind } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { WINDY_KPH, describeWeather, type WeatherConditions } from '@/lib/outfit';
+
+interface WeatherBadgeProps {
+  weather: WeatherConditions;
+}
+
+const weatherIcon = ({ precipitation, windKph }: WeatherConditions) => {
+  if (precipitation === 'snow') return Snowflake;
+  if (precipitation === 'rain') return CloudRain;
+  if (precipitation === 'drizzle') return CloudDrizzle;
+  if (windKph >= WINDY_KPH) return Wind;
+  return Sun;
+};
+
+// Compact current-weather readout for the mirror header
+const WeatherBadge = ({ weather }: WeatherBadgeProps) => {
+  const Icon = weatherIcon(weather);
+  const details = [weather.description, `wind ${Math.round(weather.windKph)} km/h`, weather.location].filter(Boolean);
+
+  return (
+    <Badge variant="secondary" className="bg-background/40 backdrop-blur-md" title={details.join(' · ')}>
+      <Icon className="w-3 h-3 mr-1" />
+      {describeWeather({ ...weather, precipitation: 'none' })}
+    </Badge>
+  );
+};
+
+export default WeatherBadge;
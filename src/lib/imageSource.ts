@@ -0,0 +1,99 @@
+// Where an analyzed frame came from
+export type ImageSourceKind = 'camera' | 'upload' | 'drop' | 'paste';
+
+export const IMAGE_SOURCE_LABELS: Record<ImageSourceKind, string> = {
+  camera: 'Live camera',
+  upload: 'Uploaded photo',
+  drop: 'Dropped photo',
+  paste: 'Pasted image'
+};
+
+// Longest side a still is scaled down to; phone photos are often 4000px+
+// and the models gain nothing from the extra pixels
+export const MAX_IMAGE_DIMENSION = 1920;
+
+// Files above this are refused before decoding
+export const MAX_IMAGE_BYTES = 30 * 1024 * 1024;
+
+// A frame ready for analysis. Camera frames are shown mirrored, stills as taken.
+export interface CapturedFrame {
+  canvas: HTMLCanvasElement;
+  source: ImageSourceKind;
+  mirrored: boolean;
+  name: string | null; // file name for stills
+}
+
+const drawToCanvas = (image: CanvasImageSource, width: number, height: number) => {
+  const scale = Math.min(1, MAX_IMAGE_DIMENSION / Math.max(width, height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(width * scale);
+  canvas.height = Math.round(height * scale);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas 2D context is unavailable');
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(image, 0, 0, canvas.width, canvas.height);
+  return canvas;
+};
+
+// Copy the current video frame; null until the camera delivers frames
+export const captureVideoFrame = (video: HTMLVideoElement): CapturedFrame | null => {
+  if (!video.videoWidth || !video.videoHeight) return null;
+
+  const canvas = document.createElement('canvas');
+  canvas.width = video.videoWidth;
+  canvas.height = video.videoHeight;
+  canvas.getContext('2d')?.drawImage(video, 0, 0);
+  return { canvas, source: 'camera', mirrored: true, name: null };
+};
+
+// Decode through an <img>, which browsers also orient from EXIF by default
+const decodeWithImageElement = (file: File) =>
+  new Promise<HTMLImageElement>((resolve, reject) => {
+    const url = URL.createObjectURL(file);
+    const image = new Image();
+    image.onload = () => {
+      URL.revokeObjectURL(url);
+      resolve(image);
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error(`Could not decode ${file.name || 'the image'}`));
+    };
+    image.src = url;
+  });
+
+// Decode an image file into a frame. EXIF orientation is applied so phone
+// photos come out upright, and large images are scaled to MAX_IMAGE_DIMENSION.
+// Rejects with a user-facing message for non-images and undecodable files.
+export const loadImageFile = async (file: File, source: Exclude<ImageSourceKind, 'camera'>): Promise<CapturedFrame> => {
+  if (!file.type.startsWith('image/')) throw new Error(`${file.name || 'That file'} is not an image`);
+  if (file.size > MAX_IMAGE_BYTES) {
+    throw new Error(`Images must be under ${Math.round(MAX_IMAGE_BYTES / 1024 / 1024)} MB`);
+  }
+
+  let canvas: HTMLCanvasElement;
+  if (typeof createImageBitmap === 'function') {
+    try {
+      const bitmap = await createImageBitmap(file, { imageOrientation: 'from-image' });
+      canvas = drawToCanvas(bitmap, bitmap.width, bitmap.height);
+      bitmap.close();
+    } catch {
+      // Some formats decode only through <img> (e.g. HEIC in Safari)
+      const image = await decodeWithImageElement(file);
+      canvas = drawToCanvas(image, image.naturalWidth, image.naturalHeight);
+    }
+  } else {
+    const image = await decodeWithImageElement(file);
+    canvas = drawToCanvas(image, image.naturalWidth, image.naturalHeight);
+  }
+
+  return { canvas, source, mirrored: false, name: file.name || null };
+};
+
+// First image file in a drop or clipboard payload
+export const imageFileFrom = (data: DataTransfer | null): File | null =>
+  Array.from(data?.files ?? []).find(file => file.type.startsWith('image/'))
+  ?? Array.from(data?.items ?? [])
+    .find(item => item.kind === 'file' && item.type.startsWith('image/'))
+    ?.getAsFile()
+  ?? null;
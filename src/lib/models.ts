@@ -0,0 +1,60 @@
+import {
+  AutoImageProcessor,
+  AutoModelForPoseEstimation,
+  RawImage,
+  pipeline,
+  env,
+  type AllTasks,
+  type PipelineType,
+  type Tensor,
+  type VitPoseImageProcessor
+} from '@huggingface/transformers';
+import { POSE_KEYPOINTS, type PoseEstimator } from '@/lib/outfit';
+
+// Configure transformers
+env.allowLocalModels = false;
+env.useBrowserCache = true;
+
+export const PERSON_DETECTION_MODEL = 'Xenova/detr-resnet-50';
+export const CLOTHING_SEGMENTATION_MODEL = 'Xenova/segformer_b2_clothes';
+export const STYLE_CLASSIFIER_MODEL = 'Xenova/clip-vit-base-patch32';
+// YOLOS fine-tuned on Fashionpedia; labels are mapped in FASHION_ITEM_LABELS
+export const CLOTHING_DETECTION_MODEL = 'valentinafeve/yolos-fashionpedia';
+// VitPose runs on a person crop and returns the 17 COCO keypoints
+export const POSE_ESTIMATION_MODEL = 'onnx-community/vitpose-base-simple';
+
+// Load a transformers.js pipeline on WebGPU, falling back to the default backend.
+// Rejects with the fallback's error when the model cannot be loaded at all.
+export const loadPipeline = async <T extends PipelineType>(task: T, model: string): Promise<AllTasks[T]> => {
+  try {
+    return await pipeline(task, model, { device: 'webgpu' });
+  } catch {
+    // Fallback without webgpu
+    return pipeline(task, model);
+  }
+};
+
+// Load the pose model and its processor as a PoseEstimator. There is no
+// transformers.js pipeline for pose estimation, so the heatmaps are decoded here.
+// Rejects like loadPipeline when the model cannot be loaded at all.
+export const loadPoseEstimator = async (): Promise<PoseEstimator> => {
+  const load = (options: { device?: 'webgpu' } = {}) =>
+    Promise.all([
+      AutoModelForPoseEstimation.from_pretrained(POSE_ESTIMATION_MODEL, options),
+      AutoImageProcessor.from_pretrained(POSE_ESTIMATION_MODEL)
+    ]);
+
+  const [model, processor] = await load({ device: 'webgpu' }).catch(() => load());
+  const id2label = (model.config as { id2label?: Record<number, string> }).id2label;
+  return async (image: string) => {
+    const raw = await RawImage.read(image);
+    const { heatmaps } = (await model(await processor(raw))) as { heatmaps: Tensor };
+    const [[pose]] = (processor as VitPoseImageProcessor).post_process_pose_estimation(heatmaps, [[[0, 0, raw.width, raw.height]]]);
+    return pose.keypoints.map(([x, y], i) => ({
+      label: id2label?.[pose.labels[i]] ?? POSE_KEYPOINTS[pose.labels[i]],
+      x,
+      y,
+      score: pose.scores[i]
+    }));
+  };
+};
@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import { analyzeAccessories } from './accessories';
+import { analyzePerson } from './analyze';
+import type { Rgb } from './color';
+import { FIGURE_DETECTION, figureImage, fillRect } from './fixtures';
+import type { BBox, ClothingItem } from './types';
+
+const BAG_BOX: BBox = [60, 100, 30, 30];
+
+const accessory = (label: string): ClothingItem => ({
+  label,
+  rawLabel: label.toLowerCase(),
+  category: 'accessory',
+  bbox: BAG_BOX,
+  confidence: 0.9
+});
+
+// Red top and green trousers (complementary) with a bag of the given color held over the top
+const withBag = (color: Rgb, top: Rgb = [200, 16, 46], bottom: Rgb = [34, 139, 34]) => {
+  const [x, y, width, height] = BAG_BOX;
+  return fillRect(figureImage({ top, bottom }), { x, y, width, height }, color);
+};
+
+const ruleIds = (color: Rgb, label = 'Handbag') =>
+  analyzePerson(withBag(color), FIGURE_DETECTION, { accessories: [accessory(label)] })
+    .suggestions.map(suggestion => suggestion.ruleId);
+
+describe('analyzeAccessories', () => {
+  const outfit = analyzePerson(figureImage({ top: [200, 16, 46], bottom: [34, 139, 34] }), FIGURE_DETECTION);
+
+  it("names the accessory's color from the center of its box", () => {
+    const [bag] = analyzeAccessories(withBag([128, 0, 128]), [accessory('Handbag')], outfit.palette);
+
+    expect([bag.label, bag.color, bag.clashes]).toEqual(['Handbag', 'Purple', false]);
+  });
+
+  it('flags a color that breaks the outfit scheme', () => {
+    const [bag] = analyzeAccessories(withBag([255, 200, 0]), [accessory('Handbag')], outfit.palette);
+
+    expect([bag.color, bag.clashes]).toEqual(['Yellow', true]);
+  });
+
+  it('never flags a neutral accessory', () => {
+    const [bag] = analyzeAccessories(withBag([40, 40, 40]), [accessory('Handbag')], outfit.palette);
+
+    expect([bag.color, bag.clashes]).toEqual(['Charcoal', false]);
+  });
+
+  it('reports no color for a box outside the frame', () => {
+    const [bag] = analyzeAccessories(withBag([128, 0, 128]), [{ ...accessory('Handbag'), bbox: [400, 400, 30, 30] }], outfit.palette);
+
+    expect([bag.color, bag.hex, bag.clashes]).toEqual([null, null, false]);
+  });
+});
+
+describe('accessory suggestions', () => {
+  it('warns about a clashing accessory', () => {
+    expect(ruleIds([255, 200, 0])).toContain('accessory-clash');
+  });
+
+  it('praises a colored accessory that fits the scheme', () => {
+    const ids = ruleIds([128, 0, 128]);
+
+    expect(ids).toContain('praise-accessory');
+    expect(ids).not.toContain('accessory-clash');
+  });
+
+  it('neither warns nor praises a neutral accessory', () => {
+    const ids = ruleIds([40, 40, 40]);
+
+    expect(ids).not.toContain('accessory-clash');
+    expect(ids).not.toContain('praise-accessory');
+  });
+
+  it('stops suggesting a tie once one is worn', () => {
+    const image = withBag([20, 30, 80], [255, 255, 255], [20, 30, 80]);
+    const bare = analyzePerson(image, FIGURE_DETECTION).suggestions.map(suggestion => suggestion.ruleId);
+    const tied = analyzePerson(image, FIGURE_DETECTION, { accessories: [accessory('Tie')] })
+      .suggestions.map(suggestion => suggestion.ruleId);
+
+    expect(bare).toContain('accessory-tie');
+    expect(tied).not.toContain('accessory-tie');
+  });
+});
@@ -0,0 +1,45 @@
+import { evaluateHarmony } from './harmony';
+import { isNeutralColor } from './naming';
+import { extractPalette } from './palette';
+import { sampleColors } from './samples';
+import type { AccessoryAnalysis, ClothingItem, PaletteSwatch, PixelBuffer, Region } from './types';
+
+// Share of the accessory box sampled, centred, to stay clear of background and straps
+const CORE_FRACTION = 0.6;
+
+// Coverage given to the accessory when testing it against the outfit palette
+const ACCESSORY_COVERAGE = 0.1;
+
+const coreRegion = ([x, y, width, height]: ClothingItem['bbox'], image: PixelBuffer): Region => {
+  const inset = (1 - CORE_FRACTION) / 2;
+  const left = Math.max(0, Math.round(x + width * inset));
+  const top = Math.max(0, Math.round(y + height * inset));
+  return {
+    x: left,
+    y: top,
+    width: Math.max(0, Math.min(image.width, Math.round(x + width * (1 - inset))) - left),
+    height: Math.max(0, Math.min(image.height, Math.round(y + height * (1 - inset))) - top)
+  };
+};
+
+// An accessory clashes when adding its color breaks an otherwise harmonious
+// palette. Neutral accessories never clash.
+const clashesWith = (swatch: PaletteSwatch, palette: PaletteSwatch[]) => {
+  if (isNeutralColor(swatch.name) || palette.length === 0) return false;
+  if (evaluateHarmony(palette).scheme === 'none') return false;
+  return evaluateHarmony([...palette, { ...swatch, coverage: ACCESSORY_COVERAGE }]).scheme === 'none';
+};
+
+// Name each accessory's main color and check it against the outfit palette
+export const analyzeAccessories = (
+  image: PixelBuffer,
+  accessories: ClothingItem[],
+  palette: PaletteSwatch[]
+): AccessoryAnalysis[] =>
+  accessories.map(item => {
+    const samples = sampleColors(image, coreRegion(item.bbox, image), () => 1);
+    const [main] = extractPalette(samples.bins, { k: 2 });
+    if (!main) return { ...item, color: null, hex: null, clashes: false };
+
+    return { ...item, color: main.name, hex: main.hex, clashes: clashesWith(main, palette) };
+  });
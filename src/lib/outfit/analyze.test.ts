@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest';
+import { analyzeImageColors, analyzePerson } from './analyze';
+import { FIGURE_DETECTION, figureImage, solidImage } from './fixtures';
+import type { OutfitAnalysis } from './types';
+
+const ruleIds = (analysis: OutfitAnalysis) => analysis.suggestions.map(suggestion => suggestion.ruleId);
+
+describe('analyzePerson', () => {
+  it('scores a white shirt with navy trousers', () => {
+    const analysis = analyzePerson(figureImage({ top: [255, 255, 255], bottom: [20, 30, 80] }), FIGURE_DETECTION);
+
+    expect(analysis.score).toBe(10);
+    expect(analysis.style).toBe('Business Casual');
+    expect(analysis.colors).toEqual(['Navy', 'White']);
+    expect(ruleIds(analysis)).toEqual(['contrast-stark', 'accessory-tie', 'praise-harmony', 'praise-balanced']);
+  });
+
+  it('scores a black and white outfit as professional', () => {
+    const analysis = analyzePerson(figureImage({ top: [250, 250, 250], bottom: [15, 15, 15] }), FIGURE_DETECTION);
+
+    expect(analysis.score).toBe(10);
+    expect(analysis.style).toBe('Professional');
+    expect(analysis.colors).toEqual(['Black', 'White']);
+    expect(ruleIds(analysis)).toEqual(['contrast-stark', 'accessory-tie', 'praise-harmony', 'praise-balanced']);
+  });
+
+  it('scores a red top with green trousers as complementary', () => {
+    const analysis = analyzePerson(figureImage({ top: [200, 16, 46], bottom: [34, 139, 34] }), FIGURE_DETECTION);
+
+    expect(analysis.score).toBe(9);
+    expect(analysis.style).toBe('Bold & Confident');
+    expect(analysis.harmony.scheme).toBe('complementary');
+    expect(ruleIds(analysis)).toEqual(['contrast-flat-garments', 'praise-harmony']);
+  });
+
+  it('names only the clothing colors, not skin, shoes or wall', () => {
+    const image = figureImage({ top: [255, 255, 255], bottom: [20, 30, 80], background: [210, 180, 140] });
+    const analysis = analyzePerson(image, FIGURE_DETECTION);
+
+    expect(analysis.colors).toEqual(['Navy', 'White']);
+    expect(ruleIds(analysis)).not.toContain('too-many-colors');
+    expect(ruleIds(analysis)).not.toContain('single-color');
+  });
+
+  it('splits the person into garment zones', () => {
+    const analysis = analyzePerson(figureImage({ top: [255, 255, 255], bottom: [20, 30, 80] }), FIGURE_DETECTION);
+
+    expect(analysis.garments.map(garment => [garment.kind, garment.colors[0]])).toEqual([
+      ['top', 'White'],
+      ['bottom', 'Navy'],
+      ['footwear', 'Charcoal']
+    ]);
+  });
+
+  it('ignores the background outside the person box', () => {
+    const image = figureImage({ top: [255, 255, 255], bottom: [20, 30, 80], background: [200, 16, 46] });
+    const analysis = analyzePerson(image, FIGURE_DETECTION);
+
+    expect(analysis.colors).not.toContain('Red');
+    expect(analysis.contrast.darkest).toBe('Navy');
+  });
+
+  it('draws the margin around the box without sampling it', () => {
+    const analysis = analyzePerson(figureImage({ top: [255, 255, 255], bottom: [20, 30, 80] }), FIGURE_DETECTION);
+
+    expect(analysis.region).toEqual({ x: 45, y: 7, width: 110, height: 286 });
+    expect(analysis.garments[0].region.x).toBe(50);
+  });
+
+  it('reports nobody in frame without scoring the background', () => {
+    const analysis = analyzePerson(solidImage(200, 300, [200, 16, 46]), null);
+
+    expect(analysis.personFound).toBe(false);
+    expect(analysis.score).toBe(0);
+    expect(analysis.style).toBe('No person detected');
+    expect(ruleIds(analysis)).toEqual(['no-person']);
+  });
+});
+
+describe('analyzeImageColors', () => {
+  it('scores a single dark color', () => {
+    const analysis = analyzeImageColors(solidImage(100, 100, [20, 30, 80]), { normalization: false });
+
+    expect(analysis.score).toBe(7);
+    expect(analysis.style).toBe('Elegant & Sophisticated');
+    expect(analysis.colors).toEqual(['Navy']);
+    expect(ruleIds(analysis)).toEqual(['contrast-flat', 'brightness-dark', 'praise-harmony']);
+  });
+
+  it('pins the score breakdown to the total', () => {
+    const analysis = analyzePerson(figureImage({ top: [255, 255, 255], bottom: [20, 30, 80] }), FIGURE_DETECTION);
+    const points = analysis.breakdown.reduce((sum, criterion) => sum + criterion.points, 0);
+
+    expect(Math.min(10, Math.round(points))).toBe(analysis.score);
+  });
+});
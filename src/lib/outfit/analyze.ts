@@ -0,0 +1,235 @@
+import { analyzeAccessories } from './accessories';
+import { heuristicClassification } from './classifier';
+import { estimateConfidence } from './confidence';
+import { measureContrast } from './contrast';
+import { analyzeGarments, outfitColorNames } from './garments';
+import { evaluateHarmony } from './harmony';
+import { maskWeightAt } from './mask';
+import { DEFAULT_LOCALE, type Locale } from './messages';
+import { normalizeImage, type NormalizationOptions } from './normalization';
+import {
+  DEFAULT_OCCASION_ID,
+  evaluateOccasion,
+  getOccasion,
+  occasionStyleLabel,
+  occasionSuggestionRules,
+  type Occasion
+} from './occasions';
+import { extractPalette } from './palette';
+import { measureProportions } from './pose';
+import {
+  DEFAULT_PROFILE_ID,
+  getScoringProfile,
+  profileSuggestionRules,
+  type ScoringProfile
+} from './profiles';
+import { DEFAULT_REGION_MARGIN, expandBox, fullFrameRegion } from './region';
+import { evaluatePersonalColor } from './seasonal';
+import { DEFAULT_SUGGESTION_RULES } from './rules';
+import { sampleColors, type PixelWeight } from './samples';
+import { scoreOutfit } from './scoring';
+import { determineStyle } from './style';
+import { createSuggestion, runSuggestionRules } from './suggestions';
+import type {
+  ClothingItem,
+  ClothingMask,
+  GarmentKind,
+  Keypoint,
+  OutfitAnalysis,
+  PatternAnalysis,
+  PersonalColorProfile,
+  PersonDetection,
+  PixelBuffer,
+  Region,
+  WeatherConditions
+} from './types';
+
+export interface ColorAnalysisOptions {
+  region?: Region;
+  mask?: ClothingMask | null;
+  detection?: PersonDetection | null; // enables the detection, framing and full-body confidence factors
+  items?: ClothingItem[]; // from the clothing item detector
+  accessories?: ClothingItem[];
+  patterns?: Partial<Record<GarmentKind, PatternAnalysis>>; // per-garment overrides, e.g. from a pattern model
+  profile?: ScoringProfile;
+  locale?: Locale;
+  normalization?: NormalizationOptions | false; // white balance and exposure; false analyzes the raw frame
+  personalColor?: PersonalColorProfile | null; // the wearer's seasonal palette, when known
+  occasion?: Occasion;
+  weather?: WeatherConditions | null;
+  pose?: Keypoint[]; // body keypoints in frame pixels, for proportion feedback
+}
+
+export interface PersonAnalysisOptions extends Omit<ColorAnalysisOptions, 'region'> {
+  margin?: number;
+}
+
+// Score the pixels inside `region` (whole frame by default). With a mask, each
+// pixel counts in proportion to its clothing weight and background is skipped.
+// The frame is white-balanced and exposure-corrected first unless disabled.
+export const analyzeImageColors = (
+  rawImage: PixelBuffer,
+  {
+    region,
+    mask,
+    detection,
+    items = [],
+    accessories = [],
+    patterns,
+    profile = getScoringProfile(DEFAULT_PROFILE_ID),
+    locale = DEFAULT_LOCALE,
+    normalization = {},
+    personalColor = null,
+    occasion = getOccasion(DEFAULT_OCCASION_ID),
+    weather = null,
+    pose = []
+  }: ColorAnalysisOptions = {}
+): OutfitAnalysis => {
+  const { image: imageData, correction } = normalization === false
+    ? { image: rawImage, correction: null }
+    : normalizeImage(rawImage, normalization, region ?? null);
+  const area = region ?? fullFrameRegion(imageData);
+
+  const maskWeight: PixelWeight = (x, y) => maskWeightAt(mask, x, y, imageData.width, imageData.height);
+  let samples = mask ? sampleColors(imageData, area, maskWeight) : null;
+  const masked = !!samples && samples.totalWeight > 0;
+  // No mask, or the mask has no clothing inside the region: use every pixel
+  const weightOf: PixelWeight = masked ? maskWeight : () => 1;
+  if (!masked) samples = sampleColors(imageData, area, weightOf);
+
+  const { avgBrightness } = samples;
+  const palette = extractPalette(samples.bins);
+  const rawPalette = imageData === rawImage ? palette : extractPalette(sampleColors(rawImage, area, weightOf).bins);
+  const garments = region ? analyzeGarments(imageData, area, weightOf, { patterns, masked, items }) : [];
+  // Style and color count go by the clothes, not the skin and shoes around them
+  const outfitColors = outfitColorNames(palette, garments);
+  const dominantColors = outfitColors.slice(0, 3);
+
+  const personalColorFit = personalColor ? evaluatePersonalColor(palette, garments, personalColor) : null;
+  const harmony = evaluateHarmony(palette);
+  const contrast = measureContrast(palette, garments);
+
+  // Calculate score based on harmony, contrast, and brightness
+  const colorCount = outfitColors.length;
+  const baseStyle = determineStyle(dominantColors, avgBrightness);
+  const occasionFit = evaluateOccasion(occasion, baseStyle, palette);
+  const { score, breakdown } = scoreOutfit({
+    brightness: avgBrightness,
+    harmony,
+    contrast,
+    colorCount,
+    patterns: garments.map(garment => garment.pattern).filter(Boolean),
+    personalColor: personalColorFit,
+    occasion,
+    occasionFit,
+    profile
+  });
+  const style = occasionStyleLabel(occasion, profile, baseStyle);
+  const { confidence, factors } = estimateConfidence({
+    image: imageData,
+    rawImage,
+    region: area,
+    weightOf,
+    palette,
+    detection
+  });
+  const accessoryAnalysis = analyzeAccessories(imageData, accessories, palette);
+  const proportions = pose.length > 0 ? measureProportions(imageData, pose) : null;
+
+  return {
+    score,
+    breakdown,
+    style,
+    styleClassification: heuristicClassification(style),
+    colors: dominantColors,
+    palette,
+    rawPalette,
+    correction,
+    personalColor: personalColorFit,
+    occasion: occasionFit,
+    weather,
+    harmony,
+    contrast,
+    garments,
+    items,
+    accessories: accessoryAnalysis,
+    proportions,
+    suggestions: runSuggestionRules(
+      {
+        colors: dominantColors,
+        palette,
+        brightness: avgBrightness,
+        harmony,
+        contrast,
+        garments,
+        items,
+        accessories: accessoryAnalysis,
+        style,
+        personalColor: personalColorFit,
+        occasion: occasionFit,
+        weather,
+        proportions,
+        profile
+      },
+      occasionSuggestionRules(occasion, profileSuggestionRules(profile, DEFAULT_SUGGESTION_RULES)),
+      { locale }
+    ),
+    confidence,
+    confidenceFactors: factors,
+    profile: profile.id,
+    personFound: true,
+    region: area,
+    masked,
+    frame: { width: imageData.width, height: imageData.height }
+  };
+};
+
+// Result returned when there is nobody in frame, so the background is never scored
+export const createNoPersonAnalysis = (
+  imageData: PixelBuffer,
+  locale: Locale = DEFAULT_LOCALE,
+  profile: ScoringProfile = getScoringProfile(DEFAULT_PROFILE_ID)
+): OutfitAnalysis => ({
+  score: 0,
+  breakdown: [],
+  style: 'No person detected',
+  styleClassification: null,
+  colors: [],
+  palette: [],
+  rawPalette: [],
+  correction: null,
+  personalColor: null,
+  occasion: null,
+  weather: null,
+  harmony: null,
+  contrast: null,
+  garments: [],
+  items: [],
+  accessories: [],
+  proportions: null,
+  suggestions: [createSuggestion('no-person', 'warning', 100, undefined, locale)],
+  confidence: 0,
+  confidenceFactors: [],
+  profile: profile.id,
+  personFound: false,
+  region: null,
+  masked: false,
+  frame: { width: imageData.width, height: imageData.height }
+});
+
+// Score only the pixels inside the detected person's box. The margin widens
+// the region reported for display and model crops, never the sampled pixels,
+// so the background around the person stays out of the palette and contrast.
+export const analyzePerson = (
+  imageData: PixelBuffer,
+  detection: PersonDetection | null,
+  { margin = DEFAULT_REGION_MARGIN, ...options }: PersonAnalysisOptions = {}
+): OutfitAnalysis => {
+  if (!detection) return createNoPersonAnalysis(imageData, options.locale, options.profile);
+
+  const region = expandBox(detection.bbox, 0, imageData.width, imageData.height);
+  if (region.width === 0 || region.height === 0) return createNoPersonAnalysis(imageData, options.locale, options.profile);
+
+  const analysis = analyzeImageColors(imageData, { ...options, region, detection });
+  return { ...analysis, region: expandBox(detection.bbox, margin, imageData.width, imageData.height) };
+};
@@ -0,0 +1,75 @@
+import { describe, expect, it, vi } from 'vitest';
+import { analyzePerson } from './analyze';
+import { STYLE_HYPOTHESIS, applyStyleClassification, classifyStyle, type ZeroShotClassifier } from './classifier';
+import { FIGURE_DETECTION, figureImage } from './fixtures';
+
+// Stub model returning fixed, unnormalized scores in an arbitrary order
+const stubClassifier: ZeroShotClassifier = async () => [
+  { label: 'streetwear', score: 0.1 },
+  { label: 'business formal', score: 0.6 },
+  { label: 'smart casual', score: 0.3 }
+];
+
+describe('classifyStyle', () => {
+  it('ranks the model labels and normalizes their scores', async () => {
+    const classification = await classifyStyle('crop', { classifier: stubClassifier, fallbackStyle: 'Casual' });
+
+    expect(classification.source).toBe('model');
+    expect(classification.predictions.map(prediction => prediction.label)).toEqual([
+      'Business Formal',
+      'Smart Casual',
+      'Streetwear'
+    ]);
+    expect(classification.predictions[0].probability).toBeCloseTo(0.6);
+    expect(classification.predictions.reduce((sum, prediction) => sum + prediction.probability, 0)).toBeCloseTo(1);
+  });
+
+  it('passes the configured labels and hypothesis to the model', async () => {
+    const classifier = vi.fn(stubClassifier);
+    await classifyStyle('crop', { classifier, labels: ['bohemian', 'sporty'], fallbackStyle: 'Casual' });
+
+    expect(classifier).toHaveBeenCalledWith('crop', ['bohemian', 'sporty'], { hypothesis_template: STYLE_HYPOTHESIS });
+  });
+
+  it('falls back to the heuristic style without a model', async () => {
+    expect(await classifyStyle('crop', { classifier: null, fallbackStyle: 'Casual' })).toEqual({
+      source: 'heuristic',
+      predictions: [{ label: 'Casual', probability: 1 }]
+    });
+  });
+
+  it('falls back to the heuristic style and reports why when the model throws', async () => {
+    const failing: ZeroShotClassifier = async () => {
+      throw new Error('model unavailable');
+    };
+    const logError = vi.spyOn(console, 'error');
+
+    const classification = await classifyStyle('crop', { classifier: failing, fallbackStyle: 'Professional' });
+
+    expect(classification.source).toBe('heuristic');
+    expect(classification.predictions[0].label).toBe('Professional');
+    expect(classification.error).toBe('model unavailable');
+    expect(logError).not.toHaveBeenCalled();
+    logError.mockRestore();
+  });
+});
+
+describe('applyStyleClassification', () => {
+  const analysis = analyzePerson(figureImage({ top: [250, 250, 250], bottom: [15, 15, 15] }), FIGURE_DETECTION);
+
+  it("records the model's ranking without changing the style the advice came from", async () => {
+    const classification = await classifyStyle('crop', { classifier: stubClassifier, fallbackStyle: analysis.style });
+    const classified = applyStyleClassification(analysis, classification);
+
+    expect(classified.styleClassification.predictions[0].label).toBe('Business Formal');
+    expect(classified.style).toBe('Professional');
+    expect(classified.suggestions).toBe(analysis.suggestions);
+    expect(classified.score).toBe(analysis.score);
+  });
+
+  it('keeps the heuristic style when the model was unavailable', async () => {
+    const classification = await classifyStyle('crop', { classifier: null, fallbackStyle: analysis.style });
+
+    expect(applyStyleClassification(analysis, classification).style).toBe('Professional');
+  });
+});
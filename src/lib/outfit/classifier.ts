@@ -0,0 +1,76 @@
+import type { OutfitAnalysis, StyleClassification, StylePrediction } from './types';
+
+export interface ZeroShotResult {
+  label: string;
+  score: number;
+}
+
+// Anything shaped like a transformers.js zero-shot-image-classification pipeline.
+// Tests can pass a stub that returns fixed scores.
+export type ZeroShotClassifier<I = string> = (
+  image: I,
+  labels: string[],
+  options?: { hypothesis_template?: string }
+) => Promise<ZeroShotResult[]>;
+
+export const DEFAULT_STYLE_LABELS = [
+  'business formal',
+  'smart casual',
+  'streetwear',
+  'bohemian',
+  'sporty',
+  'minimalist',
+  'evening wear'
+];
+
+export const STYLE_HYPOTHESIS = 'a photo of a person wearing a {} outfit';
+
+export interface StyleClassifierOptions<I = string> {
+  classifier?: ZeroShotClassifier<I> | null;
+  labels?: string[];
+  fallbackStyle: string; // heuristic style used when the model is missing or fails
+}
+
+const titleCase = (label: string) => label.replace(/\b\w/g, letter => letter.toUpperCase());
+
+// Message for a model failure, reported in results instead of logged here
+export const errorMessage = (error: unknown) => (error instanceof Error ? error.message : String(error));
+
+export const heuristicClassification = (style: string, error?: string): StyleClassification => ({
+  source: 'heuristic',
+  predictions: [{ label: style, probability: 1 }],
+  ...(error ? { error } : {})
+});
+
+// Rank the configured style labels for a person crop with a CLIP-style model.
+// Falls back to the color heuristic when no classifier is available or it
+// throws; a failure is reported in `error` for the caller to surface.
+export const classifyStyle = async <I>(
+  image: I,
+  { classifier, labels = DEFAULT_STYLE_LABELS, fallbackStyle }: StyleClassifierOptions<I>
+): Promise<StyleClassification> => {
+  if (!classifier || labels.length === 0) return heuristicClassification(fallbackStyle);
+
+  try {
+    const results = await classifier(image, labels, { hypothesis_template: STYLE_HYPOTHESIS });
+    const total = results.reduce((sum, result) => sum + result.score, 0) || 1;
+    const predictions: StylePrediction[] = results
+      .map(result => ({ label: titleCase(result.label), probability: result.score / total }))
+      .sort((a, b) => b.probability - a.probability);
+
+    return predictions.length > 0 ? { source: 'model', predictions } : heuristicClassification(fallbackStyle);
+  } catch (error) {
+    return heuristicClassification(fallbackStyle, errorMessage(error));
+  }
+};
+
+// Attach the model's ranking to the analysis. `style` stays the heuristic
+// label, since the suggestions, occasion fit and group formality were all
+// derived from it and would disagree with a swapped-in model label.
+export const applyStyleClassification = (
+  analysis: OutfitAnalysis,
+  classification: StyleClassification
+): OutfitAnalysis => ({
+  ...analysis,
+  styleClassification: classification
+});
@@ -0,0 +1,103 @@
+export type ColorCounts = { [key: string]: number };
+
+export type Rgb = [number, number, number];
+
+// OKLab coordinates: L is lightness (0-1), a/b are the green-red and blue-yellow axes
+export interface Oklab {
+  L: number;
+  a: number;
+  b: number;
+}
+
+// OKLCH coordinates: chroma is saturation-like, hue is in degrees
+export interface Oklch {
+  L: number;
+  C: number;
+  h: number;
+}
+
+export const rgbToHue = (r: number, g: number, b: number) => {
+  r /= 255; g /= 255; b /= 255;
+  const max = Math.max(r, g, b), min = Math.min(r, g, b);
+  const diff = max - min;
+  let hue = 0;
+
+  if (diff !== 0) {
+    switch (max) {
+      case r: hue = ((g - b) / diff) % 6; break;
+      case g: hue = (b - r) / diff + 2; break;
+      case b: hue = (r - g) / diff + 4; break;
+    }
+  }
+  // Wrap negative angles (red-magenta side) into 0-360
+  return (Math.round(hue * 60) + 360) % 360;
+};
+
+// Perceived brightness (Rec. 601 luma) in the 0-1 range
+export const getBrightness = (r: number, g: number, b: number) =>
+  (r * 0.299 + g * 0.587 + b * 0.114) / 255;
+
+const srgbToLinear = (channel: number) => {
+  const c = channel / 255;
+  return c <= 0.04045 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
+};
+
+// sRGB (0-255) to OKLab, see https://bottosson.github.io/posts/oklab/
+export const rgbToOklab = (r: number, g: number, b: number): Oklab => {
+  const lr = srgbToLinear(r);
+  const lg = srgbToLinear(g);
+  const lb = srgbToLinear(b);
+
+  const l = Math.cbrt(0.4122214708 * lr + 0.5363325363 * lg + 0.0514459929 * lb);
+  const m = Math.cbrt(0.2119034982 * lr + 0.6806995451 * lg + 0.1073969566 * lb);
+  const s = Math.cbrt(0.0883024619 * lr + 0.2817188376 * lg + 0.6299787005 * lb);
+
+  return {
+    L: 0.2104542553 * l + 0.793617785 * m - 0.0040720468 * s,
+    a: 1.9779984951 * l - 2.428592205 * m + 0.4505937099 * s,
+    b: 0.0259040371 * l + 0.7827717662 * m - 0.808675766 * s
+  };
+};
+
+export const oklabToOklch = ({ L, a, b }: Oklab): Oklch => {
+  const hue = (Math.atan2(b, a) * 180) / Math.PI;
+  return { L, C: Math.sqrt(a * a + b * b), h: hue < 0 ? hue + 360 : hue };
+};
+
+// OKLCH hues of the artist's wheel primaries and secondaries (red, orange,
+// yellow, green, blue, purple, red again) and where each sits on that wheel
+const ARTIST_WHEEL: [number, number][] = [
+  [25, 0],
+  [60, 60],
+  [100, 120],
+  [142, 180],
+  [265, 240],
+  [310, 300],
+  [385, 360]
+];
+
+// Hue (degrees) on the red-yellow-blue artist's wheel that fashion color advice
+// uses, where red sits opposite green and blue opposite orange. Perceptual
+// OKLCH hues are mapped piecewise-linearly between the wheel's anchors.
+export const artistHue = (r: number, g: number, b: number) => {
+  let { h } = oklabToOklch(rgbToOklab(r, g, b));
+  if (h < ARTIST_WHEEL[0][0]) h += 360;
+
+  for (let i = 1; i < ARTIST_WHEEL.length; i++) {
+    const [fromHue, fromAngle] = ARTIST_WHEEL[i - 1];
+    const [toHue, toAngle] = ARTIST_WHEEL[i];
+    if (h <= toHue) return Math.round(fromAngle + ((toAngle - fromAngle) * (h - fromHue)) / (toHue - fromHue)) % 360;
+  }
+  return 0;
+};
+
+export const oklabDistance = (x: Oklab, y: Oklab) =>
+  Math.sqrt((x.L - y.L) ** 2 + (x.a - y.a) ** 2 + (x.b - y.b) ** 2);
+
+export const hexToRgb = (hex: string): Rgb => {
+  const value = parseInt(hex.replace('#', ''), 16);
+  return [(value >> 16) & 255, (value >> 8) & 255, value & 255];
+};
+
+export const rgbToHex = (r: number, g: number, b: number) =>
+  '#' + [r, g, b].map(c => Math.round(c).toString(16).padStart(2, '0')).join('').toUpperCase();
@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { analyzeImageColors, analyzePerson } from './analyze';
+import { limitingFactors } from './confidence';
+import { FIGURE_DETECTION, figureImage, fillRect, solidImage } from './fixtures';
+import type { OutfitAnalysis } from './types';
+
+const quality = (analysis: OutfitAnalysis, id: string) =>
+  analysis.confidenceFactors.find(factor => factor.id === id)?.quality;
+
+const detail = (analysis: OutfitAnalysis, id: string) =>
+  analysis.confidenceFactors.find(factor => factor.id === id)?.detail;
+
+const navyAndWhite = () => figureImage({ top: [255, 255, 255], bottom: [20, 30, 80] });
+
+describe('estimateConfidence', () => {
+  it('trusts a well-framed, fully visible person', () => {
+    const analysis = analyzePerson(navyAndWhite(), FIGURE_DETECTION);
+
+    expect(quality(analysis, 'framing')).toBe(1);
+    expect(quality(analysis, 'full-body')).toBe(1);
+    expect(quality(analysis, 'detection')).toBe(0.95);
+  });
+
+  it('drops framing for a person who fills little of the frame', () => {
+    const image = solidImage(800, 1200, [128, 128, 128]);
+    fillRect(image, { x: 400, y: 500, width: 40, height: 50 }, [255, 255, 255]);
+    fillRect(image, { x: 400, y: 550, width: 40, height: 50 }, [20, 30, 80]);
+    const analysis = analyzePerson(image, { bbox: [400, 500, 40, 100], confidence: 0.95 });
+
+    expect(quality(analysis, 'framing')).toBeLessThan(0.1);
+    expect(limitingFactors(analysis.confidenceFactors).map(factor => factor.id)).toContain('framing');
+  });
+
+  it('drops exposure on a dark frame and says to add light', () => {
+    const dark = figureImage({ top: [25, 25, 25], bottom: [2, 3, 8], skin: [20, 15, 12], shoes: [5, 5, 5], background: [10, 10, 10] });
+    const analysis = analyzePerson(dark, FIGURE_DETECTION);
+
+    expect(quality(analysis, 'exposure')).toBe(0);
+    expect(detail(analysis, 'exposure')).toBe('The scene is underexposed; add light');
+    expect(analysis.confidence).toBeLessThan(analyzePerson(navyAndWhite(), FIGURE_DETECTION).confidence);
+  });
+
+  it('notices a body cut off at the frame edges', () => {
+    const analysis = analyzePerson(navyAndWhite(), { bbox: [50, 0, 100, 300], confidence: 0.95 });
+
+    expect(quality(analysis, 'full-body')).toBeCloseTo(0.2);
+    expect(detail(analysis, 'full-body')).toBe('Head and feet are cut off; step back so your whole body is visible');
+  });
+
+  it('leaves out the detection factors when nobody was detected', () => {
+    const analysis = analyzeImageColors(navyAndWhite());
+
+    expect(analysis.confidenceFactors.map(factor => factor.id)).toEqual(['exposure', 'sharpness', 'stability']);
+  });
+});
+
+describe('limitingFactors', () => {
+  it('lists the factors below the threshold, worst first', () => {
+    const analysis = analyzePerson(navyAndWhite(), { bbox: [50, 0, 100, 300], confidence: 0.6 });
+    const limiting = limitingFactors(analysis.confidenceFactors);
+
+    expect(limiting.map(factor => factor.id)).toContain('full-body');
+    expect(limiting.map(factor => factor.quality)).toEqual([...limiting.map(factor => factor.quality)].sort((a, b) => a - b));
+  });
+});
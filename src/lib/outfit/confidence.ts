@@ -0,0 +1,196 @@
+import { getBrightness, oklabDistance, rgbToOklab } from './color';
+import { extractPalette } from './palette';
+import { forEachSample, regionCoverage } from './region';
+import { SAMPLE_STEP, sampleColors, type PixelWeight } from './samples';
+import type { ConfidenceFactor, PaletteSwatch, PersonDetection, PixelBuffer, Region } from './types';
+
+// Relative importance of each factor in the overall estimate
+const FACTOR_WEIGHTS: Record<string, number> = {
+  detection: 0.25,
+  framing: 0.15,
+  'full-body': 0.15,
+  exposure: 0.15,
+  sharpness: 0.15,
+  stability: 0.15
+};
+
+// Factors scoring below this are reported as having lowered the confidence
+export const LIMITING_QUALITY = 0.7;
+
+// Person box share of the frame at which framing counts as good
+const GOOD_COVERAGE = 0.2;
+
+// Box edges within this share of the frame border count as cut off
+const EDGE_MARGIN = 0.02;
+
+// Laplacian variance (0-255 grey levels) of a reasonably sharp frame
+const SHARP_VARIANCE = 150;
+
+// Mean OKLab distance between the two sampling passes' palettes that counts as unstable
+const UNSTABLE_DISTANCE = 0.08;
+
+const clamp01 = (value: number) => Math.min(Math.max(value, 0), 1);
+
+const factor = (id: string, label: string, quality: number, detail: string): ConfidenceFactor => ({
+  id,
+  label,
+  quality: clamp01(quality),
+  weight: FACTOR_WEIGHTS[id],
+  detail
+});
+
+const detectionFactor = (detection: PersonDetection) =>
+  factor(
+    'detection',
+    'Person detection',
+    detection.confidence,
+    `Detector is ${Math.round(detection.confidence * 100)}% sure a person is in frame`
+  );
+
+const framingFactor = (region: Region, image: PixelBuffer) => {
+  const coverage = regionCoverage(region, image.width, image.height);
+  return factor(
+    'framing',
+    'Framing',
+    coverage / GOOD_COVERAGE,
+    coverage < GOOD_COVERAGE
+      ? `You fill only ${Math.round(coverage * 100)}% of the frame; step closer`
+      : `You fill ${Math.round(coverage * 100)}% of the frame`
+  );
+};
+
+const fullBodyFactor = (detection: PersonDetection, image: PixelBuffer) => {
+  const [, y, , height] = detection.bbox;
+  const cutTop = y <= image.height * EDGE_MARGIN;
+  const cutBottom = y + height >= image.height * (1 - EDGE_MARGIN);
+  const detail = cutTop && cutBottom
+    ? 'Head and feet are cut off; step back so your whole body is visible'
+    : cutBottom
+      ? 'Your feet are cut off; step back or tilt the camera down'
+      : cutTop
+        ? 'Your head is cut off; tilt the camera up'
+        : 'Your whole body is visible';
+  return factor('full-body', 'Full body visible', 1 - (cutTop ? 0.3 : 0) - (cutBottom ? 0.5 : 0), detail);
+};
+
+const exposureFactor = (image: PixelBuffer, region: Region) => {
+  let clipped = 0;
+  let total = 0;
+  let brightness = 0;
+  forEachSample(image, region, SAMPLE_STEP, (r, g, b) => {
+    const luma = getBrightness(r, g, b);
+    if (luma < 0.04 || luma > 0.96) clipped++;
+    brightness += luma;
+    total++;
+  });
+
+  const clippedShare = total > 0 ? clipped / total : 0;
+  const mean = total > 0 ? brightness / total : 0;
+  const offCentre = Math.max(0, Math.abs(mean - 0.5) - 0.3) / 0.2; // 0 inside 0.2-0.8, 1 at the extremes
+  const detail = mean < 0.2
+    ? 'The scene is underexposed; add light'
+    : mean > 0.8
+      ? 'The scene is overexposed; reduce backlight or glare'
+      : clippedShare > 0.15
+        ? `${Math.round(clippedShare * 100)}% of pixels are clipped to pure black or white`
+        : 'Exposure looks good';
+  return factor('exposure', 'Exposure', 1 - clippedShare * 2 - offCentre * 0.5, detail);
+};
+
+// Variance of a 4-neighbour Laplacian on grey levels, sampled on a coarse grid
+const sharpnessFactor = (image: PixelBuffer, region: Region) => {
+  const { data, width } = image;
+  const grid = Math.max(1, Math.round(Math.sqrt(SAMPLE_STEP)));
+  const grey = (x: number, y: number) => {
+    const i = (y * width + x) * 4;
+    return data[i] * 0.299 + data[i + 1] * 0.587 + data[i + 2] * 0.114;
+  };
+
+  let sum = 0;
+  let sumSquares = 0;
+  let count = 0;
+  for (let y = region.y + 1; y < region.y + region.height - 1; y += grid) {
+    for (let x = region.x + 1; x < region.x + region.width - 1; x += grid) {
+      const laplacian = 4 * grey(x, y) - grey(x - 1, y) - grey(x + 1, y) - grey(x, y - 1) - grey(x, y + 1);
+      sum += laplacian;
+      sumSquares += laplacian * laplacian;
+      count++;
+    }
+  }
+
+  const variance = count > 0 ? sumSquares / count - (sum / count) ** 2 : 0;
+  return factor(
+    'sharpness',
+    'Sharpness',
+    variance / SHARP_VARIANCE,
+    variance < SHARP_VARIANCE * LIMITING_QUALITY
+      ? 'The image looks blurry; hold still or clean the lens'
+      : 'The image is sharp'
+  );
+};
+
+// Re-extract the palette from a second, offset sampling pass and measure how far
+// its swatches land from the first pass. Noisy or tiny regions drift.
+const stabilityFactor = (image: PixelBuffer, region: Region, weightOf: PixelWeight, palette: PaletteSwatch[]) => {
+  const second = extractPalette(sampleColors(image, region, weightOf, Math.floor(SAMPLE_STEP / 2)).bins);
+  if (palette.length === 0 || second.length === 0) {
+    return factor('stability', 'Palette stability', 0, 'Too few outfit pixels to extract a stable palette');
+  }
+
+  const secondLabs = second.map(swatch => rgbToOklab(...swatch.rgb));
+  const drift = palette.reduce((sum, swatch) => {
+    const lab = rgbToOklab(...swatch.rgb);
+    const nearest = Math.min(...secondLabs.map(other => oklabDistance(lab, other)));
+    return sum + nearest * swatch.coverage;
+  }, 0) / palette.reduce((sum, swatch) => sum + swatch.coverage, 0);
+
+  return factor(
+    'stability',
+    'Palette stability',
+    1 - drift / UNSTABLE_DISTANCE,
+    drift > UNSTABLE_DISTANCE * (1 - LIMITING_QUALITY)
+      ? 'Detected colors shift between samples; the outfit area may be too small or noisy'
+      : 'Detected colors are consistent across samples'
+  );
+};
+
+export interface ConfidenceInputs {
+  image: PixelBuffer;
+  rawImage?: PixelBuffer; // frame before color correction; exposure is judged on it
+  region: Region;
+  weightOf: PixelWeight;
+  palette: PaletteSwatch[];
+  detection?: PersonDetection | null;
+}
+
+export interface ConfidenceResult {
+  confidence: number; // 0-100
+  factors: ConfidenceFactor[];
+}
+
+// Estimate how far the analysis can be trusted from capture quality rather than
+// from the score. Detection-based factors are skipped when no detection is given.
+export const estimateConfidence = ({
+  image,
+  rawImage = image,
+  region,
+  weightOf,
+  palette,
+  detection
+}: ConfidenceInputs): ConfidenceResult => {
+  const factors: ConfidenceFactor[] = [
+    ...(detection ? [detectionFactor(detection), framingFactor(region, image), fullBodyFactor(detection, image)] : []),
+    exposureFactor(rawImage, region),
+    sharpnessFactor(image, region),
+    stabilityFactor(image, region, weightOf, palette)
+  ];
+
+  const totalWeight = factors.reduce((sum, item) => sum + item.weight, 0);
+  const quality = factors.reduce((sum, item) => sum + item.quality * item.weight, 0) / totalWeight;
+
+  return { confidence: Math.round(quality * 100), factors };
+};
+
+// Factors that pulled the confidence down, worst first
+export const limitingFactors = (factors: ConfidenceFactor[]) =>
+  factors.filter(item => item.quality < LIMITING_QUALITY).sort((a, b) => a.quality - b.quality);
@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { hexToRgb } from './color';
+import { contrastLevel, contrastPoints, contrastRatio, measureContrast, relativeLuminance } from './contrast';
+import { nameColor } from './naming';
+import type { GarmentAnalysis, GarmentKind, PaletteSwatch } from './types';
+
+const swatch = (hex: string, coverage: number): PaletteSwatch => {
+  const rgb = hexToRgb(hex);
+  return { rgb, hex, name: nameColor(...rgb).name, coverage };
+};
+
+const garment = (kind: GarmentKind, hex: string): GarmentAnalysis => ({
+  kind,
+  label: kind,
+  region: { x: 0, y: 0, width: 10, height: 10 },
+  colors: [nameColor(...hexToRgb(hex)).name],
+  palette: [swatch(hex, 1)],
+  brightness: 0.5,
+  score: 8,
+  pattern: null
+});
+
+describe('contrastRatio', () => {
+  it('spans 1 to 21 like WCAG', () => {
+    expect(contrastRatio(relativeLuminance(0, 0, 0), relativeLuminance(255, 255, 255))).toBeCloseTo(21);
+    expect(contrastRatio(0.4, 0.4)).toBe(1);
+  });
+
+  it('grades ratios into levels', () => {
+    expect(contrastLevel(1.5)).toBe('low');
+    expect(contrastLevel(3)).toBe('medium');
+    expect(contrastLevel(8)).toBe('high');
+  });
+});
+
+describe('measureContrast', () => {
+  it('compares the darkest and lightest significant swatches', () => {
+    const contrast = measureContrast([swatch('#111111', 0.5), swatch('#F8F8F8', 0.45), swatch('#C8102E', 0.05)], []);
+
+    expect(contrast.darkest).toBe('Black');
+    expect(contrast.lightest).toBe('White');
+    expect(contrast.garmentRatio).toBeNull();
+    expect(contrast.level).toBe('high');
+  });
+
+  it('prefers the contrast between top and bottom when both are visible', () => {
+    const palette = [swatch('#111111', 0.2), swatch('#F8F8F8', 0.4), swatch('#C0C0C0', 0.4)];
+    const contrast = measureContrast(palette, [garment('top', '#F8F8F8'), garment('bottom', '#C0C0C0')]);
+
+    expect(contrast.paletteRatio).toBeGreaterThan(10);
+    expect(contrast.ratio).toBe(contrast.garmentRatio);
+    expect(contrast.level).toBe('low');
+  });
+
+  it('earns full points from a ratio of 3', () => {
+    expect(contrastPoints(measureContrast([swatch('#111111', 0.5), swatch('#F8F8F8', 0.5)], []))).toBe(2);
+    expect(contrastPoints(measureContrast([swatch('#808080', 1)], []))).toBe(0);
+  });
+});
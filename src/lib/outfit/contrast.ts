@@ -0,0 +1,76 @@
+import { rgbToOklab } from './color';
+import type { ContrastLevel, ContrastResult, GarmentAnalysis, PaletteSwatch } from './types';
+
+// Swatches smaller than this share are ignored when looking for the darkest/lightest tone
+const MIN_SWATCH_COVERAGE = 0.1;
+
+// WCAG-style ratio thresholds: below LOW reads flat, above HIGH reads stark
+const LOW_RATIO = 2;
+const HIGH_RATIO = 5;
+
+const linearize = (channel: number) => {
+  const c = channel / 255;
+  return c <= 0.03928 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
+};
+
+// WCAG relative luminance, 0 (black) to 1 (white)
+export const relativeLuminance = (r: number, g: number, b: number) =>
+  0.2126 * linearize(r) + 0.7152 * linearize(g) + 0.0722 * linearize(b);
+
+export const contrastRatio = (luminanceA: number, luminanceB: number) =>
+  (Math.max(luminanceA, luminanceB) + 0.05) / (Math.min(luminanceA, luminanceB) + 0.05);
+
+const weightedMean = (palette: PaletteSwatch[], measure: (swatch: PaletteSwatch) => number) => {
+  const total = palette.reduce((sum, swatch) => sum + swatch.coverage, 0);
+  return total > 0 ? palette.reduce((sum, swatch) => sum + measure(swatch) * swatch.coverage, 0) / total : 0;
+};
+
+const paletteLuminance = (palette: PaletteSwatch[]) =>
+  weightedMean(palette, swatch => relativeLuminance(...swatch.rgb));
+
+// OKLab lightness on a 0-100 scale
+const paletteLightness = (palette: PaletteSwatch[]) =>
+  weightedMean(palette, swatch => rgbToOklab(...swatch.rgb).L * 100);
+
+export const contrastLevel = (ratio: number): ContrastLevel =>
+  ratio < LOW_RATIO ? 'low' : ratio < HIGH_RATIO ? 'medium' : 'high';
+
+// Measure contrast two ways: across the outfit's own tones (darkest vs lightest
+// significant swatch) and between the upper and lower garments. The garment
+// ratio wins when both pieces are visible, since that is what the eye reads.
+export const measureContrast = (palette: PaletteSwatch[], garments: GarmentAnalysis[]): ContrastResult => {
+  const significant = palette.filter(swatch => swatch.coverage >= MIN_SWATCH_COVERAGE);
+  const tones = (significant.length > 0 ? significant : palette)
+    .map(swatch => ({ name: swatch.name, luminance: relativeLuminance(...swatch.rgb) }))
+    .sort((a, b) => a.luminance - b.luminance);
+
+  const darkest = tones[0];
+  const lightest = tones[tones.length - 1];
+  const paletteRatio = darkest ? contrastRatio(darkest.luminance, lightest.luminance) : 1;
+
+  const upper = garments.find(garment => garment.kind === 'outerwear') ?? garments.find(garment => garment.kind === 'top');
+  const lower = garments.find(garment => garment.kind === 'bottom');
+
+  let garmentRatio: number | null = null;
+  let garmentDeltaL: number | null = null;
+  if (upper && lower && upper.palette.length > 0 && lower.palette.length > 0) {
+    garmentRatio = contrastRatio(paletteLuminance(upper.palette), paletteLuminance(lower.palette));
+    garmentDeltaL = Math.abs(paletteLightness(upper.palette) - paletteLightness(lower.palette));
+  }
+
+  const ratio = garmentRatio ?? paletteRatio;
+
+  return {
+    ratio,
+    level: contrastLevel(ratio),
+    paletteRatio,
+    garmentRatio,
+    garmentDeltaL,
+    darkest: darkest?.name ?? null,
+    lightest: lightest?.name ?? null
+  };
+};
+
+// Score points for contrast (max `maxPoints`), rising with the ratio up to `fullPointsRatio`
+export const contrastPoints = (contrast: ContrastResult, maxPoints = 2, fullPointsRatio = 3) =>
+  Math.min(maxPoints, Math.max(0, (maxPoints * (contrast.ratio - 1)) / (fullPointsRatio - 1)));
@@ -0,0 +1,70 @@
+import type { Rgb } from './color';
+import type { BBox, PersonDetection, PixelBuffer, Region } from './types';
+
+// Synthetic frames for the test suite: flat color blocks with known values
+
+export const solidImage = (width: number, height: number, [r, g, b]: Rgb): PixelBuffer => {
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let i = 0; i < data.length; i += 4) {
+    data[i] = r;
+    data[i + 1] = g;
+    data[i + 2] = b;
+    data[i + 3] = 255;
+  }
+  return { data, width, height };
+};
+
+// Paint a rectangle in place; `color` can vary per pixel, e.g. for a check
+export const fillRect = (
+  image: PixelBuffer,
+  { x, y, width, height }: Region,
+  color: Rgb | ((x: number, y: number) => Rgb)
+) => {
+  for (let row = y; row < y + height; row++) {
+    for (let col = x; col < x + width; col++) {
+      const [r, g, b] = typeof color === 'function' ? color(col - x, row - y) : color;
+      const i = (row * image.width + col) * 4;
+      image.data[i] = r;
+      image.data[i + 1] = g;
+      image.data[i + 2] = b;
+    }
+  }
+  return image;
+};
+
+// Two-color check with square cells of `size` pixels
+export const checkerboard = (a: Rgb, b: Rgb, size: number) => (x: number, y: number): Rgb =>
+  (Math.floor(x / size) + Math.floor(y / size)) % 2 === 0 ? a : b;
+
+export interface FigureColors {
+  top: Rgb;
+  bottom: Rgb;
+  shoes?: Rgb;
+  skin?: Rgb;
+  background?: Rgb;
+}
+
+// Person box inside a 200x300 frame, for placing the figure
+export const FIGURE_BOX: BBox = [50, 20, 100, 260];
+
+export const FIGURE_DETECTION: PersonDetection = { bbox: FIGURE_BOX, confidence: 0.95 };
+
+// A standing figure filling FIGURE_BOX: head, top over the torso band, bottoms
+// and shoes, with the top reaching the sides of the box like a fitted shirt
+export const figureImage = ({
+  top,
+  bottom,
+  shoes = [40, 40, 40],
+  skin = [224, 172, 140],
+  background = [128, 128, 128]
+}: FigureColors): PixelBuffer => {
+  const image = solidImage(200, 300, background);
+  const [x, y, width, height] = FIGURE_BOX;
+  const row = (share: number) => y + Math.round(height * share);
+
+  fillRect(image, { x: x + 30, y, width: 40, height: row(0.15) - y }, skin);
+  fillRect(image, { x, y: row(0.15), width, height: row(0.5) - row(0.15) }, top);
+  fillRect(image, { x, y: row(0.5), width, height: row(0.88) - row(0.5) }, bottom);
+  fillRect(image, { x, y: row(0.88), width, height: y + height - row(0.88) }, shoes);
+  return image;
+};
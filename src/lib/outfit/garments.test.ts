@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { analyzeGarments, outfitColorNames } from './garments';
+import { FIGURE_BOX, figureImage, fillRect, solidImage } from './fixtures';
+import { extractPalette } from './palette';
+import { sampleColors } from './samples';
+import type { ClothingItem, PixelBuffer, Region } from './types';
+
+const [x, y, width, height] = FIGURE_BOX;
+const region: Region = { x, y, width, height };
+const everyPixel = () => 1;
+
+// Red top that only covers the middle of the box, with the grey wall either side
+const narrowTopImage = (): PixelBuffer => {
+  const image = figureImage({ top: [200, 16, 46], bottom: [20, 30, 80] });
+  const torso = { y: y + Math.round(height * 0.15), height: Math.round(height * 0.35) };
+  fillRect(image, { x, ...torso, width: 30 }, [128, 128, 128]);
+  fillRect(image, { x: x + width - 30, ...torso, width: 30 }, [128, 128, 128]);
+  return image;
+};
+
+const jacket: ClothingItem = { label: 'Jacket', rawLabel: 'jacket', category: 'garment', bbox: FIGURE_BOX, confidence: 0.9 };
+
+const kinds = (image: PixelBuffer, options = {}) =>
+  analyzeGarments(image, region, everyPixel, options).map(garment => garment.kind);
+
+describe('analyzeGarments', () => {
+  it('reports top, bottom and footwear', () => {
+    const garments = analyzeGarments(figureImage({ top: [200, 16, 46], bottom: [20, 30, 80] }), region, everyPixel);
+
+    expect(garments.map(garment => [garment.kind, garment.colors[0]])).toEqual([
+      ['top', 'Red'],
+      ['bottom', 'Navy'],
+      ['footwear', 'Charcoal']
+    ]);
+  });
+
+  it('does not mistake the background beside the torso for an outer layer', () => {
+    expect(kinds(narrowTopImage())).toEqual(['top', 'bottom', 'footwear']);
+  });
+
+  it('reports an outer layer when the item detector found one', () => {
+    expect(kinds(narrowTopImage(), { items: [jacket] })).toEqual(['top', 'outerwear', 'bottom', 'footwear']);
+  });
+
+  it('reports an outer layer when a mask restricted the samples', () => {
+    expect(kinds(narrowTopImage(), { masked: true })).toEqual(['top', 'outerwear', 'bottom', 'footwear']);
+  });
+});
+
+describe('outfitColorNames', () => {
+  it('counts the clothes but not the shoes', () => {
+    const garments = analyzeGarments(figureImage({ top: [255, 255, 255], bottom: [20, 30, 80] }), region, everyPixel);
+
+    expect(outfitColorNames([], garments)).toEqual(['Navy', 'White']);
+  });
+
+  it('falls back to the whole palette without garment zones', () => {
+    const image = fillRect(solidImage(100, 100, [20, 30, 80]), { x: 0, y: 0, width: 100, height: 50 }, [255, 255, 255]);
+    const palette = extractPalette(sampleColors(image, { x: 0, y: 0, width: 100, height: 100 }, everyPixel).bins);
+
+    expect(outfitColorNames(palette, []).sort()).toEqual(['Navy', 'White']);
+  });
+});
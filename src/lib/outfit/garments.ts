@@ -0,0 +1,171 @@
+import { hasOuterLayerItem } from './items';
+import { extractPalette, paletteColorNames } from './palette';
+import { analyzePattern } from './patterns';
+import { topColors, sampleColors, type ColorSamples, type PixelWeight } from './samples';
+import type { ClothingItem, GarmentAnalysis, GarmentKind, PaletteSwatch, PatternAnalysis, PixelBuffer, Region } from './types';
+
+// Vertical bands of the person box, as fractions of its height. The head
+// (top ~15%) is left out so hair and skin do not count as a garment.
+const GARMENT_BANDS: { kind: Exclude<GarmentKind, 'outerwear'>; from: number; to: number }[] = [
+  { kind: 'top', from: 0.15, to: 0.5 },
+  { kind: 'bottom', from: 0.5, to: 0.88 },
+  { kind: 'footwear', from: 0.88, to: 1 }
+];
+
+// Centre share of the torso treated as the top; the sides can hold an open layer
+const TORSO_CENTER = 0.4;
+
+// Minimum sampled weight before a zone is reported (too few pixels = out of frame)
+const MIN_ZONE_WEIGHT = 4;
+
+export const GARMENT_LABELS: Record<GarmentKind, string> = {
+  top: 'Top',
+  bottom: 'Bottom',
+  footwear: 'Footwear',
+  outerwear: 'Outer Layer'
+};
+
+const band = (region: Region, from: number, to: number): Region => {
+  const top = region.y + Math.round(region.height * from);
+  const bottom = region.y + Math.round(region.height * to);
+  return { x: region.x, y: top, width: region.width, height: Math.max(0, bottom - top) };
+};
+
+const columns = (region: Region, from: number, to: number): Region => {
+  const left = region.x + Math.round(region.width * from);
+  const right = region.x + Math.round(region.width * to);
+  return { x: left, y: region.y, width: Math.max(0, right - left), height: region.height };
+};
+
+// Merge two sample sets, e.g. the left and right side of the torso
+const mergeSamples = (a: ColorSamples, b: ColorSamples): ColorSamples => {
+  const colorCounts = { ...a.colorCounts };
+  for (const [color, count] of Object.entries(b.colorCounts)) {
+    colorCounts[color] = (colorCounts[color] || 0) + count;
+  }
+  const totalWeight = a.totalWeight + b.totalWeight;
+  return {
+    colorCounts,
+    bins: [...a.bins, ...b.bins],
+    avgBrightness: totalWeight > 0
+      ? (a.avgBrightness * a.totalWeight + b.avgBrightness * b.totalWeight) / totalWeight
+      : 0,
+    totalWeight
+  };
+};
+
+// Sub-score for a single piece: mid-range brightness and one or two colors are ideal
+export const scoreGarment = ({ colorCounts, avgBrightness }: ColorSamples) => {
+  const variety = Object.keys(colorCounts).length;
+  let score = 5;
+
+  if (avgBrightness >= 0.3 && avgBrightness <= 0.7) score += 2;
+  else if (avgBrightness >= 0.2 && avgBrightness <= 0.8) score += 1;
+
+  if (variety <= 2) score += 3;
+  else if (variety === 3) score += 1;
+
+  return Math.min(Math.max(Math.round(score), 1), 10);
+};
+
+const toGarment = (
+  kind: GarmentKind,
+  region: Region,
+  samples: ColorSamples,
+  pattern: PatternAnalysis | null
+): GarmentAnalysis => {
+  const palette = extractPalette(samples.bins, { k: 3 });
+  return {
+    kind,
+    label: GARMENT_LABELS[kind],
+    region,
+    colors: paletteColorNames(palette, 2),
+    palette,
+    brightness: samples.avgBrightness,
+    score: scoreGarment(samples),
+    pattern
+  };
+};
+
+// The colors the outfit is built from, most coverage first: the main colors
+// of the top, bottom and outer layer, weighted by zone area. Footwear stays
+// out along with the skin and background around it; a region without garment
+// zones (a bare frame) falls back to the whole palette.
+export const outfitColorNames = (palette: PaletteSwatch[], garments: GarmentAnalysis[]) => {
+  const worn = garments.filter(garment => garment.kind !== 'footwear');
+  if (worn.length === 0) return paletteColorNames(palette, palette.length);
+
+  const weights = new Map<string, number>();
+  for (const garment of worn) {
+    const area = garment.region.width * garment.region.height;
+    for (const swatch of garment.palette) {
+      if (!garment.colors.includes(swatch.name)) continue;
+      weights.set(swatch.name, (weights.get(swatch.name) ?? 0) + swatch.coverage * area);
+    }
+  }
+  return [...weights.entries()].sort((a, b) => b[1] - a[1]).map(([name]) => name);
+};
+
+export interface GarmentOptions {
+  patterns?: Partial<Record<GarmentKind, PatternAnalysis>>;
+  masked?: boolean; // weightOf comes from a clothing mask, so background and skin are excluded
+  items?: ClothingItem[];
+}
+
+// Split the person region into garment zones and analyze each one. An outer
+// layer is reported when the sides of the torso differ from its centre, as
+// with an open jacket or cardigan over a shirt. Without a mask the sides of
+// the box also hold background and arms, so the split is only trusted when
+// the item detector found a jacket, coat or cardigan. Patterns come from
+// `patterns` when given (e.g. a model's labels) and from the texture
+// heuristic otherwise.
+export const analyzeGarments = (
+  imageData: PixelBuffer,
+  region: Region,
+  weightOf: PixelWeight,
+  { patterns = {}, masked = false, items = [] }: GarmentOptions = {}
+): GarmentAnalysis[] => {
+  const layerEvidence = masked || hasOuterLayerItem(items);
+  const garments: GarmentAnalysis[] = [];
+  const garment = (kind: GarmentKind, zone: Region, samples: ColorSamples) =>
+    toGarment(kind, zone, samples, patterns[kind] ?? analyzePattern(imageData, zone, weightOf));
+
+  for (const { kind, from, to } of GARMENT_BANDS) {
+    const zone = band(region, from, to);
+    if (zone.height === 0) continue;
+
+    if (kind !== 'top') {
+      const samples = sampleColors(imageData, zone, weightOf);
+      if (samples.totalWeight >= MIN_ZONE_WEIGHT) garments.push(garment(kind, zone, samples));
+      continue;
+    }
+
+    const sideWidth = (1 - TORSO_CENTER) / 2;
+    const center = columns(zone, sideWidth, 1 - sideWidth);
+    const left = columns(zone, 0, sideWidth);
+    const right = columns(zone, 1 - sideWidth, 1);
+
+    const centerSamples = sampleColors(imageData, center, weightOf);
+    const sideSamples = mergeSamples(
+      sampleColors(imageData, left, weightOf),
+      sampleColors(imageData, right, weightOf)
+    );
+
+    const centerColor = topColors(centerSamples.colorCounts, 1)[0];
+    const sideColor = topColors(sideSamples.colorCounts, 1)[0];
+    const layered = layerEvidence
+      && centerSamples.totalWeight >= MIN_ZONE_WEIGHT
+      && sideSamples.totalWeight >= MIN_ZONE_WEIGHT
+      && centerColor !== sideColor;
+
+    if (layered) {
+      garments.push(garment('top', center, centerSamples));
+      garments.push(garment('outerwear', zone, sideSamples));
+    } else {
+      const samples = mergeSamples(centerSamples, sideSamples);
+      if (samples.totalWeight >= MIN_ZONE_WEIGHT) garments.push(garment('top', zone, samples));
+    }
+  }
+
+  return garments;
+};
@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { analyzePerson } from './analyze';
+import type { Rgb } from './color';
+import { FIGURE_DETECTION, figureImage, solidImage } from './fixtures';
+import { analyzeGroup, mergePalettes } from './group';
+import type { GroupAnalysis } from './types';
+
+const WHITE: Rgb = [255, 255, 255];
+const NAVY: Rgb = [20, 30, 80];
+const RED: Rgb = [200, 16, 46];
+const ORANGE: Rgb = [242, 140, 40];
+const PURPLE: Rgb = [106, 13, 173];
+
+const person = (top: Rgb, bottom: Rgb) => analyzePerson(figureImage({ top, bottom }), FIGURE_DETECTION);
+
+const ruleIds = (group: GroupAnalysis) => group.suggestions.map(suggestion => suggestion.ruleId);
+
+describe('analyzeGroup', () => {
+  it('needs at least two people', () => {
+    expect(analyzeGroup([person(WHITE, NAVY)])).toBeNull();
+    expect(analyzeGroup([person(WHITE, NAVY), analyzePerson(solidImage(200, 300, WHITE), null)])).toBeNull();
+  });
+
+  it('praises a group sharing one neutral palette', () => {
+    const group = analyzeGroup([person(WHITE, NAVY), person(NAVY, WHITE)]);
+
+    expect(group.score).toBe(10);
+    expect(group.harmony.scheme).toBe('neutral');
+    expect(group.sharedColors).toEqual(expect.arrayContaining(['Navy', 'White']));
+    expect(group.members.every(member => member.clashesWith.length === 0)).toBe(true);
+    expect(ruleIds(group)).toEqual(['praise-group']);
+  });
+
+  it('names the member whose colors clash', () => {
+    const group = analyzeGroup([person(RED, ORANGE), person(ORANGE, PURPLE)]);
+
+    expect(group.score).toBe(4.6);
+    expect(group.members.map(member => member.clashesWith)).toEqual([[1], [0]]);
+    expect(ruleIds(group)).toEqual(['group-clash']);
+    expect(group.suggestions[0].text).toContain("Person 2's purple");
+  });
+
+  it('tells the odd one out to dress down', () => {
+    const group = analyzeGroup([person(RED, NAVY), person(WHITE, NAVY), person(RED, ORANGE)]);
+    const formal = group.members.reduce((most, member) => (member.formality > most.formality ? member : most));
+
+    expect(ruleIds(group)).toContain('group-dress-down');
+    expect(group.suggestions.find(suggestion => suggestion.ruleId === 'group-dress-down').text).toContain(
+      `Person ${formal.index + 1}`
+    );
+  });
+});
+
+describe('mergePalettes', () => {
+  it('weights every outfit equally however much of the frame it filled', () => {
+    const white = { rgb: WHITE, hex: '#FFFFFF', name: 'White', coverage: 0.9 };
+    const red = { rgb: RED, hex: '#C8102E', name: 'Red', coverage: 0.1 };
+
+    expect(mergePalettes([[white], [red]]).map(swatch => swatch.coverage)).toEqual([0.5, 0.5]);
+  });
+});
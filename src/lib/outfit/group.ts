@@ -0,0 +1,223 @@
+import { evaluateHarmony } from './harmony';
+import { DEFAULT_LOCALE, type Locale } from './messages';
+import { isNeutralColor } from './naming';
+import { estimateFormality } from './occasions';
+import { runSuggestionRules, type SuggestionRule } from './suggestions';
+import type { GroupAnalysis, GroupMember, HarmonyResult, OutfitAnalysis, PaletteSwatch, ScoreCriterion } from './types';
+
+export const COHESION_POINTS = 4;
+export const FORMALITY_POINTS = 3;
+export const CLASH_POINTS = 3;
+
+// Formality spread (max - min) at which the formality criterion reaches zero
+const MAX_FORMALITY_SPREAD = 0.5;
+
+// Members this far from the group's median formality are told to adjust
+const FORMALITY_OUTLIER = 0.2;
+
+export interface GroupFeatures {
+  members: GroupMember[];
+  palette: PaletteSwatch[];
+  sharedColors: string[];
+  medianFormality: number;
+  harmony: HarmonyResult;
+  score: number;
+}
+
+const round = (value: number) => Math.round(value * 10) / 10;
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+const colorNames = (analysis: OutfitAnalysis) => new Set(analysis.palette.map(swatch => swatch.name));
+
+// Merge palettes so each outfit counts equally however much of the frame it filled
+export const mergePalettes = (palettes: PaletteSwatch[][]): PaletteSwatch[] =>
+  palettes
+    .flatMap(palette => {
+      const total = palette.reduce((sum, swatch) => sum + swatch.coverage, 0) || 1;
+      return palette.map(swatch => ({ ...swatch, coverage: swatch.coverage / total / palettes.length }));
+    })
+    .sort((a, b) => b.coverage - a.coverage);
+
+// Two outfits clash when their colors together fit no scheme
+const paletteClash = (a: OutfitAnalysis, b: OutfitAnalysis) =>
+  evaluateHarmony(mergePalettes([a.palette, b.palette])).scheme === 'none';
+
+const clashesAlone = (member: GroupMember) => member.analysis.harmony?.scheme === 'none';
+
+// The member's most prominent non-neutral color, which is what reads as a clash
+const accentColor = (member: GroupMember) =>
+  member.analysis.palette.find(swatch => !isNeutralColor(swatch.name))?.name ?? member.analysis.colors[0];
+
+const personLabel = (member: GroupMember) => member.index + 1;
+
+const formalityOutlier = ({ members, medianFormality }: GroupFeatures, direction: 1 | -1) =>
+  members
+    .filter(member => (member.formality - medianFormality) * direction > FORMALITY_OUTLIER)
+    .sort((a, b) => Math.abs(b.formality - medianFormality) - Math.abs(a.formality - medianFormality))[0];
+
+// The member in the most clashing pairs; on a tie, one whose outfit has no scheme even alone
+const worstClash = ({ members }: GroupFeatures) =>
+  members
+    .filter(member => member.clashesWith.length > 0)
+    .sort((a, b) => b.clashesWith.length - a.clashesWith.length || Number(clashesAlone(b)) - Number(clashesAlone(a)))[0];
+
+export const GROUP_SUGGESTION_RULES: SuggestionRule<GroupFeatures>[] = [
+  {
+    id: 'group-clash',
+    severity: 'warning',
+    priority: 90,
+    // Only worth singling someone out when they clash with more than one member,
+    // or when there are just two people
+    when: features => {
+      const member = worstClash(features);
+      return !!member && (member.clashesWith.length > 1 || features.members.length === 2);
+    },
+    params: features => {
+      const member = worstClash(features);
+      return { person: personLabel(member), color: accentColor(member).toLowerCase() };
+    }
+  },
+  {
+    id: 'group-dress-up',
+    severity: 'tip',
+    priority: 70,
+    when: features => !!formalityOutlier(features, -1),
+    params: features => ({ person: personLabel(formalityOutlier(features, -1)) })
+  },
+  {
+    id: 'group-dress-down',
+    severity: 'tip',
+    priority: 65,
+    when: features => !!formalityOutlier(features, 1),
+    params: features => ({ person: personLabel(formalityOutlier(features, 1)) })
+  },
+  {
+    id: 'group-shared-color',
+    severity: 'tip',
+    priority: 50,
+    when: ({ sharedColors, palette }) => sharedColors.length === 0 && palette.length > 0,
+    params: ({ palette }) => ({
+      color: (palette.find(swatch => !isNeutralColor(swatch.name)) ?? palette[0]).name.toLowerCase()
+    })
+  },
+  {
+    id: 'praise-group',
+    severity: 'praise',
+    priority: 30,
+    when: ({ score, harmony }) => score >= 8 && harmony.scheme !== 'none',
+    params: ({ harmony }) => ({ scheme: harmony.scheme === 'neutral' ? 'neutral' : harmony.label.toLowerCase() })
+  }
+];
+
+// Score how well several people's outfits go together: one shared palette
+// (cohesion), similar dress levels (formality) and no pair whose colors fight
+// (clashes). Members are the per-person analyses in overlay order; fewer than
+// two people found gives null.
+export const analyzeGroup = (analyses: OutfitAnalysis[], locale: Locale = DEFAULT_LOCALE): GroupAnalysis | null => {
+  const present = analyses
+    .map((analysis, index) => ({ analysis, index }))
+    .filter(({ analysis }) => analysis.personFound);
+  if (present.length < 2) return null;
+
+  const members: GroupMember[] = present.map(({ analysis, index }) => ({
+    index,
+    analysis,
+    formality: analysis.occasion?.formality ?? estimateFormality(analysis.style, analysis.palette),
+    clashesWith: []
+  }));
+
+  // Pairwise clashes
+  let pairs = 0;
+  let clashingPairs = 0;
+  for (let i = 0; i < members.length; i++) {
+    for (let j = i + 1; j < members.length; j++) {
+      pairs++;
+      if (!paletteClash(members[i].analysis, members[j].analysis)) continue;
+      clashingPairs++;
+      members[i].clashesWith.push(members[j].index);
+      members[j].clashesWith.push(members[i].index);
+    }
+  }
+
+  // Colors worn by at least two people
+  const counts = new Map<string, number>();
+  for (const { analysis } of members) {
+    for (const name of colorNames(analysis)) counts.set(name, (counts.get(name) ?? 0) + 1);
+  }
+  const sharedColors = [...counts].filter(([, count]) => count > 1).map(([name]) => name);
+  const linked = members.filter(({ analysis }) => sharedColors.some(name => colorNames(analysis).has(name))).length;
+
+  const palette = mergePalettes(members.map(({ analysis }) => analysis.palette));
+  const harmony = evaluateHarmony(palette);
+  const harmonyFit = harmony.scheme === 'none' ? 0 : harmony.closeness;
+  const cohesion = harmonyFit * 0.6 + (linked / members.length) * 0.4;
+
+  const formalities = members.map(member => member.formality);
+  const spread = Math.max(...formalities) - Math.min(...formalities);
+  const formalityMatch = Math.max(0, 1 - spread / MAX_FORMALITY_SPREAD);
+
+  const breakdown: ScoreCriterion[] = [
+    {
+      id: 'group-cohesion',
+      label: 'Palette cohesion',
+      measurement: cohesion,
+      measurementLabel: `${harmony.label}, ${sharedColors.length} shared ${sharedColors.length === 1 ? 'color' : 'colors'}`,
+      points: round(cohesion * COHESION_POINTS),
+      maxPoints: COHESION_POINTS,
+      reason: harmonyFit >= 0.7 && linked === members.length
+        ? 'Everyone draws from one palette'
+        : linked === 0
+          ? 'Nobody shares a color with anyone else'
+          : 'The outfits only partly share a palette'
+    },
+    {
+      id: 'group-formality',
+      label: 'Formality match',
+      measurement: spread,
+      measurementLabel: `${Math.round(spread * 100)}% spread`,
+      points: round(formalityMatch * FORMALITY_POINTS),
+      maxPoints: FORMALITY_POINTS,
+      reason: spread <= 0.15
+        ? 'Everyone is dressed to the same level'
+        : spread <= 0.3
+          ? 'Dress levels differ a little'
+          : 'Some outfits are much dressier than others'
+    },
+    {
+      id: 'group-clashes',
+      label: 'Clash avoidance',
+      measurement: clashingPairs,
+      measurementLabel: `${clashingPairs} of ${pairs} ${pairs === 1 ? 'pair' : 'pairs'} clash`,
+      points: round((1 - clashingPairs / pairs) * CLASH_POINTS),
+      maxPoints: CLASH_POINTS,
+      reason: clashingPairs === 0 ? 'No two outfits fight each other' : 'Some outfits clash side by side'
+    }
+  ];
+  const score = round(breakdown.reduce((sum, criterion) => sum + criterion.points, 0));
+
+  return {
+    score,
+    breakdown,
+    harmony,
+    palette,
+    sharedColors,
+    members,
+    suggestions: runSuggestionRules(
+      {
+        members,
+        palette,
+        sharedColors,
+        medianFormality: median(formalities),
+        harmony,
+        score
+      },
+      GROUP_SUGGESTION_RULES,
+      { locale }
+    )
+  };
+};
@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import { artistHue, hexToRgb } from './color';
+import { evaluateHarmony, hueDistance } from './harmony';
+import { nameColor } from './naming';
+import type { PaletteSwatch } from './types';
+
+const palette = (...colors: [string, number][]): PaletteSwatch[] =>
+  colors.map(([hex, coverage]) => {
+    const rgb = hexToRgb(hex);
+    return { rgb, hex, name: nameColor(...rgb).name, coverage };
+  });
+
+const RED = '#C8102E';
+const FOREST_GREEN = '#228B22';
+const ROYAL_BLUE = '#4169E1';
+const ORANGE = '#F28C28';
+const YELLOW = '#F5D033';
+const PURPLE = '#6A0DAD';
+const GREY = '#808080';
+const NAVY = '#1F2A44';
+
+describe('artistHue', () => {
+  it('places the classic complements opposite each other', () => {
+    expect(hueDistance(artistHue(...hexToRgb(RED)), artistHue(...hexToRgb(FOREST_GREEN)))).toBeGreaterThan(170);
+    expect(hueDistance(artistHue(...hexToRgb(ROYAL_BLUE)), artistHue(...hexToRgb(ORANGE)))).toBeGreaterThan(170);
+    expect(hueDistance(artistHue(...hexToRgb(YELLOW)), artistHue(...hexToRgb(PURPLE)))).toBeGreaterThan(170);
+  });
+});
+
+describe('evaluateHarmony', () => {
+  it.each([
+    ['red and green', RED, FOREST_GREEN],
+    ['blue and orange', ROYAL_BLUE, ORANGE],
+    ['yellow and purple', YELLOW, PURPLE]
+  ])('recognises %s as complementary', (_, a, b) => {
+    const harmony = evaluateHarmony(palette([a, 0.5], [b, 0.5]));
+
+    expect(harmony.scheme).toBe('complementary');
+    expect(harmony.closeness).toBeGreaterThan(0.85);
+  });
+
+  it('recognises the primaries as triadic', () => {
+    const harmony = evaluateHarmony(palette([RED, 0.34], [YELLOW, 0.33], [ROYAL_BLUE, 0.33]));
+
+    expect(harmony.scheme).toBe('triadic');
+    expect(harmony.closeness).toBeGreaterThan(0.7);
+  });
+
+  it('recognises neighbouring hues as analogous', () => {
+    expect(evaluateHarmony(palette([RED, 0.5], [ORANGE, 0.5])).scheme).toBe('analogous');
+  });
+
+  it('leaves small colored swatches out of the scheme', () => {
+    const harmony = evaluateHarmony(palette([RED, 0.45], [FOREST_GREEN, 0.5], [ORANGE, 0.05]));
+
+    expect(harmony.scheme).toBe('complementary');
+    expect(harmony.hues).toHaveLength(2);
+  });
+
+  it('treats greys and navy as neutral', () => {
+    expect(evaluateHarmony(palette([GREY, 0.5], [NAVY, 0.5])).scheme).toBe('neutral');
+  });
+
+  it('reads one color over a neutral base as an accent', () => {
+    expect(evaluateHarmony(palette([GREY, 0.7], [RED, 0.3])).scheme).toBe('neutral-accent');
+  });
+});
@@ -0,0 +1,132 @@
+import { artistHue, oklabToOklch, rgbToOklab } from './color';
+import { isNeutralColor } from './naming';
+import type { HarmonyResult, HarmonyScheme, PaletteSwatch } from './types';
+
+export const HARMONY_LABELS: Record<HarmonyScheme, string> = {
+  neutral: 'All Neutrals',
+  monochrome: 'Monochrome',
+  analogous: 'Analogous',
+  complementary: 'Complementary',
+  'split-complementary': 'Split-Complementary',
+  triadic: 'Triadic',
+  'neutral-accent': 'Neutral + Accent',
+  none: 'No Clear Scheme'
+};
+
+// Swatches below this OKLCH chroma carry no usable hue
+const MIN_HUE_CHROMA = 0.04;
+
+// Colored swatches smaller than this share (a sliver of skin, a logo) take no
+// part in the scheme
+const MIN_HUE_COVERAGE = 0.08;
+
+// Hues closer than this (degrees) are treated as the same color
+const SAME_HUE = 20;
+
+// Deviation from a scheme's ideal angles (degrees) at which closeness drops to 0
+const TOLERANCE = 40;
+
+// Neutrals must cover at least this share for a single color to read as an accent
+const NEUTRAL_BASE = 0.5;
+
+interface HueGroup {
+  hue: number;
+  coverage: number;
+}
+
+export const hueDistance = (a: number, b: number) => {
+  const diff = Math.abs(a - b) % 360;
+  return diff > 180 ? 360 - diff : diff;
+};
+
+const clamp01 = (value: number) => Math.min(Math.max(value, 0), 1);
+
+// Merge nearby hues, heaviest first, keeping the coverage-weighted lead hue
+const groupHues = (hues: HueGroup[]) => {
+  const groups: HueGroup[] = [];
+  for (const entry of [...hues].sort((a, b) => b.coverage - a.coverage)) {
+    const group = groups.find(existing => hueDistance(existing.hue, entry.hue) < SAME_HUE);
+    if (group) group.coverage += entry.coverage;
+    else groups.push({ ...entry });
+  }
+  return groups;
+};
+
+// Largest angle between any two hues
+const hueSpread = (groups: HueGroup[]) => {
+  let spread = 0;
+  for (let i = 0; i < groups.length; i++) {
+    for (let j = i + 1; j < groups.length; j++) {
+      spread = Math.max(spread, hueDistance(groups[i].hue, groups[j].hue));
+    }
+  }
+  return spread;
+};
+
+// Closeness of three hues to a gap pattern around the wheel, in any rotation
+const matchGaps = (groups: HueGroup[], pattern: number[]) => {
+  const hues = groups.map(group => group.hue).sort((a, b) => a - b);
+  const gaps = hues.map((hue, i) => (i === hues.length - 1 ? hues[0] + 360 - hue : hues[i + 1] - hue));
+
+  let best = 0;
+  for (let shift = 0; shift < pattern.length; shift++) {
+    const deviation = Math.max(...gaps.map((gap, i) => Math.abs(gap - pattern[(i + shift) % pattern.length])));
+    best = Math.max(best, clamp01(1 - deviation / TOLERANCE));
+  }
+  return best;
+};
+
+const result = (scheme: HarmonyScheme, closeness: number, hues: number[]): HarmonyResult => ({
+  scheme,
+  label: HARMONY_LABELS[scheme],
+  closeness,
+  hues
+});
+
+// Match the palette's hues against classic color-wheel schemes and report the
+// closest one with a 0-1 closeness. Hues are placed on the artist's wheel, as
+// in fashion guidance, so red pairs with green and blue with orange. Neutral swatches (by name or low chroma)
+// are set aside so a grey or navy base does not count as a hue.
+export const evaluateHarmony = (palette: PaletteSwatch[]): HarmonyResult => {
+  let neutralCoverage = 0;
+  const hues: HueGroup[] = [];
+
+  for (const swatch of palette) {
+    const chroma = oklabToOklch(rgbToOklab(...swatch.rgb)).C;
+    if (isNeutralColor(swatch.name) || chroma < MIN_HUE_CHROMA) {
+      neutralCoverage += swatch.coverage;
+    } else if (swatch.coverage >= MIN_HUE_COVERAGE) {
+      hues.push({ hue: artistHue(...swatch.rgb), coverage: swatch.coverage });
+    }
+  }
+
+  const groups = groupHues(hues);
+  const groupHuesOnly = groups.map(group => group.hue);
+  const total = neutralCoverage + groups.reduce((sum, group) => sum + group.coverage, 0);
+
+  if (groups.length === 0) return result('neutral', 1, []);
+  if (groups.length === 1) {
+    return total > 0 && neutralCoverage / total >= NEUTRAL_BASE
+      ? result('neutral-accent', 1, groupHuesOnly)
+      : result('monochrome', 1, groupHuesOnly);
+  }
+
+  const spread = hueSpread(groups);
+  const candidates: [HarmonyScheme, number][] = [
+    ['monochrome', clamp01(1 - Math.max(0, spread - SAME_HUE) / TOLERANCE)],
+    ['analogous', clamp01(1 - Math.max(0, spread - 60) / TOLERANCE)]
+  ];
+
+  if (groups.length === 2) {
+    candidates.push(['complementary', clamp01(1 - Math.abs(spread - 180) / TOLERANCE)]);
+  } else if (groups.length === 3) {
+    candidates.push(['triadic', matchGaps(groups, [120, 120, 120])]);
+    candidates.push(['split-complementary', matchGaps(groups, [150, 60, 150])]);
+  }
+
+  const [scheme, closeness] = candidates.reduce((best, candidate) => (candidate[1] > best[1] ? candidate : best));
+  return closeness > 0 ? result(scheme, closeness, groupHuesOnly) : result('none', 0, groupHuesOnly);
+};
+
+// Score points for harmony (max `maxPoints`), replacing the old "2 to 4 colors" rule
+export const harmonyPoints = (harmony: HarmonyResult, maxPoints = 2) => maxPoints * harmony.closeness;
@@ -0,0 +1,211 @@
+export { analyzeAccessories } from './accessories';
+export {
+  analyzeImageColors,
+  analyzePerson,
+  createNoPersonAnalysis,
+  type ColorAnalysisOptions,
+  type PersonAnalysisOptions
+} from './analyze';
+export {
+  artistHue,
+  rgbToHue,
+  getBrightness,
+  rgbToOklab,
+  oklabToOklch,
+  oklabDistance,
+  hexToRgb,
+  rgbToHex,
+  type Oklab,
+  type Oklch,
+  type Rgb
+} from './color';
+export {
+  DEFAULT_STYLE_LABELS,
+  STYLE_HYPOTHESIS,
+  applyStyleClassification,
+  classifyStyle,
+  errorMessage,
+  heuristicClassification,
+  type StyleClassifierOptions,
+  type ZeroShotClassifier,
+  type ZeroShotResult
+} from './classifier';
+export { LIMITING_QUALITY, estimateConfidence, limitingFactors, type ConfidenceInputs, type ConfidenceResult } from './confidence';
+export { contrastLevel, contrastPoints, contrastRatio, measureContrast, relativeLuminance } from './contrast';
+export { GARMENT_LABELS, analyzeGarments, outfitColorNames, scoreGarment, type GarmentOptions } from './garments';
+export {
+  CLASH_POINTS,
+  COHESION_POINTS,
+  FORMALITY_POINTS,
+  GROUP_SUGGESTION_RULES,
+  analyzeGroup,
+  mergePalettes,
+  type GroupFeatures
+} from './group';
+export { HARMONY_LABELS, evaluateHarmony, harmonyPoints, hueDistance } from './harmony';
+export {
+  COCO_ACCESSORY_LABELS,
+  FASHION_ITEM_LABELS,
+  FOOTWEAR_HYPOTHESIS,
+  FOOTWEAR_TYPES,
+  OUTER_LAYER_ITEMS,
+  bestPersonDetection,
+  classifyFootwear,
+  detectionAt,
+  hasOuterLayerItem,
+  intersectionOverUnion,
+  overlapRatio,
+  parseItemDetections,
+  personDetections,
+  toBBox,
+  type FootwearClassification,
+  type ItemParseOptions,
+  type PersonDetectionOptions
+} from './items';
+export { CLOTHING_LABELS, buildClothingMask, maskCoverage, maskWeightAt, type Segment, type SegmentMask } from './mask';
+export {
+  ACHROMATIC_CHROMA,
+  FASHION_COLORS,
+  colorFamily,
+  getFashionColor,
+  isNeutralColor,
+  nameColor,
+  type ColorFamily,
+  type ColorMatch,
+  type FashionColor
+} from './naming';
+export {
+  DEFAULT_OCCASION_ID,
+  OCCASION_PRESETS,
+  customOccasion,
+  estimateFormality,
+  evaluateOccasion,
+  getOccasion,
+  occasionPoints,
+  occasionStyleLabel,
+  occasionSuggestionRules,
+  type CustomOccasion,
+  type Occasion
+} from './occasions';
+export {
+  DEFAULT_PROFILE_ID,
+  SCORING_PROFILES,
+  getScoringProfile,
+  profileStyleLabel,
+  profileSuggestionRules,
+  type ProfileId,
+  type ScoringProfile
+} from './profiles';
+export {
+  PATTERN_HYPOTHESIS,
+  PATTERN_LABELS,
+  PATTERN_PROMPTS,
+  analyzePattern,
+  classifyPatterns,
+  isPatterned,
+  patternKinds,
+  type PatternClassification
+} from './patterns';
+export {
+  MIN_KEYPOINT_SCORE,
+  POSE_KEYPOINTS,
+  SKELETON_EDGES,
+  estimatePose,
+  findColorBreak,
+  hemPosition,
+  keypointName,
+  measureProportions,
+  splitBalance,
+  type PoseEstimate,
+  type PoseEstimator,
+  type RawKeypoint
+} from './pose';
+export {
+  applyCorrection,
+  estimateCorrection,
+  isIdentityCorrection,
+  normalizeImage,
+  type NormalizationOptions
+} from './normalization';
+export { extractPalette, paletteColorNames, type PaletteOptions } from './palette';
+export { DEFAULT_REGION_MARGIN, expandBox, forEachSample, fullFrameRegion, regionCoverage } from './region';
+export { BASE_POINTS, scoreOutfit, type ScoreInputs, type ScoreResult } from './scoring';
+export {
+  MAX_TONE_SAMPLES,
+  SEASONAL_PALETTES,
+  SETTLED_TONE_SAMPLES,
+  addToneSample,
+  classifySeason,
+  evaluatePersonalColor,
+  sampleTones,
+  seasonalSwatches,
+  type SeasonalPalette
+} from './seasonal';
+export { SAMPLE_STEP, sampleColors, topColors, type ColorBin, type ColorSamples, type PixelWeight } from './samples';
+export { determineStyle } from './style';
+export { DEFAULT_LOCALE, SUGGESTION_MESSAGES, formatMessage, translate, type Locale, type MessageParams } from './messages';
+export {
+  dressCodePolicySchema,
+  dressCodeRuleSchema,
+  evaluateDressCode,
+  parseDressCodePolicy,
+  type ComplianceReport,
+  type ComplianceResult,
+  type ComplianceStatus,
+  type DressCodePolicy,
+  type DressCodeRule
+} from './policy';
+export { DEFAULT_SUGGESTION_RULES } from './rules';
+export { COLD_TEMPERATURE, HOT_TEMPERATURE, WINDY_KPH, describeWeather, hasOuterLayer, isWet } from './weather';
+export {
+  compareSuggestions,
+  createSuggestion,
+  runSuggestionRules,
+  type SuggestionFeatures,
+  type SuggestionOptions,
+  type SuggestionRule
+} from './suggestions';
+export type {
+  AccessoryAnalysis,
+  BBox,
+  BodyProportions,
+  ClothingItem,
+  ClothingMask,
+  ColorCorrection,
+  ConfidenceFactor,
+  ContrastLevel,
+  ContrastResult,
+  GarmentAnalysis,
+  GarmentKind,
+  GroupAnalysis,
+  GroupMember,
+  HarmonyResult,
+  HarmonyScheme,
+  HemPosition,
+  ItemCategory,
+  Keypoint,
+  KeypointName,
+  OccasionFit,
+  OutfitAnalysis,
+  PaletteSwatch,
+  PatternAnalysis,
+  PatternKind,
+  PersonDetection,
+  PersonalColorFit,
+  PersonalColorProfile,
+  PixelBuffer,
+  Precipitation,
+  RawDetection,
+  Region,
+  ScoreCriterion,
+  Season,
+  SplitBalance,
+  StyleClassification,
+  StylePrediction,
+  Suggestion,
+  SuggestionSeverity,
+  ToneSample,
+  Undertone,
+  WeatherConditions,
+  WhiteBalanceMethod
+} from './types';
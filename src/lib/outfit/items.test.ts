@@ -0,0 +1,128 @@
+import { describe, expect, it } from 'vitest';
+import type { ZeroShotClassifier } from './classifier';
+import { COCO_ACCESSORY_LABELS, classifyFootwear, detectionAt, parseItemDetections, personDetections } from './items';
+import type { BBox, PersonDetection, RawDetection } from './types';
+
+const person = (xmin: number, score: number, width = 100): RawDetection => ({
+  label: 'person',
+  score,
+  box: { xmin, ymin: 20, xmax: xmin + width, ymax: 280 }
+});
+
+const lefts = (people: PersonDetection[]) => people.map(detection => detection.bbox[0]);
+
+describe('personDetections', () => {
+  it('drops people below the score threshold and other classes', () => {
+    const detections = [person(10, 0.9), person(300, 0.4), { ...person(500, 0.99), label: 'chair' }];
+
+    expect(lefts(personDetections(detections))).toEqual([10]);
+    expect(lefts(personDetections(detections, { minScore: 0.3 }))).toEqual([10, 300]);
+  });
+
+  it('numbers people left to right whatever their score', () => {
+    expect(lefts(personDetections([person(400, 0.9), person(10, 0.6), person(200, 0.8)]))).toEqual([10, 200, 400]);
+  });
+
+  it('numbers right to left in a mirrored frame so the order matches the screen', () => {
+    const detections = [person(400, 0.9), person(10, 0.6), person(200, 0.8)];
+
+    expect(lefts(personDetections(detections, { mirrored: true }))).toEqual([400, 200, 10]);
+  });
+
+  it('merges duplicate boxes of one person, keeping the most confident', () => {
+    const people = personDetections([person(12, 0.7), person(10, 0.9)]);
+
+    expect(people).toEqual([{ bbox: [10, 20, 100, 260], confidence: 0.9 }]);
+  });
+});
+
+describe('detectionAt', () => {
+  const people: PersonDetection[] = [
+    { bbox: [0, 0, 200, 300], confidence: 0.9 },
+    { bbox: [120, 100, 60, 150], confidence: 0.8 },
+    { bbox: [300, 0, 100, 300], confidence: 0.9 }
+  ];
+
+  it('returns the box under the point', () => {
+    expect(detectionAt(people, 50, 50)).toBe(0);
+    expect(detectionAt(people, 350, 10)).toBe(2);
+  });
+
+  it('prefers the smaller box where people overlap', () => {
+    expect(detectionAt(people, 150, 150)).toBe(1);
+    expect(detectionAt([...people].reverse(), 150, 150)).toBe(1);
+  });
+
+  it('returns -1 when the point hits nobody', () => {
+    expect(detectionAt(people, 250, 150)).toBe(-1);
+  });
+});
+
+describe('parseItemDetections', () => {
+  const wearer: BBox = [100, 0, 100, 300];
+  const item = (label: string, score: number, xmin = 120, width = 40): RawDetection => ({
+    label,
+    score,
+    box: { xmin, ymin: 100, xmax: xmin + width, ymax: 160 }
+  });
+  const labels = (detections: RawDetection[], options = {}) =>
+    parseItemDetections(detections, { person: wearer, ...options }).map(parsed => parsed.label);
+
+  it('maps model classes to inventory names and categories', () => {
+    const [shirt, shoe] = parseItemDetections([item('shirt, blouse', 0.9), item('shoe', 0.8)], { person: wearer });
+
+    expect([shirt.label, shirt.category, shirt.rawLabel]).toEqual(['Shirt', 'garment', 'shirt, blouse']);
+    expect([shoe.label, shoe.category]).toEqual(['Shoes', 'footwear']);
+  });
+
+  it('leaves out garment parts the inventory does not track', () => {
+    expect(labels([item('sleeve', 0.9), item('collar', 0.9)])).toEqual(['Collar']);
+  });
+
+  it('drops items below the minimum score', () => {
+    expect(labels([item('jacket', 0.4)])).toEqual([]);
+    expect(labels([item('jacket', 0.4)], { minScore: 0.3 })).toEqual(['Jacket']);
+  });
+
+  it('keeps only items that mostly overlap the person', () => {
+    expect(labels([item('hat', 0.9, 170, 40), item('bag, wallet', 0.9, 20, 40)])).toEqual(['Hat']);
+  });
+
+  it('merges duplicate boxes of the same item and ranks by confidence', () => {
+    const detections = [item('tie', 0.6), item('tie', 0.8, 122), item('belt', 0.7, 140)];
+
+    expect(parseItemDetections(detections, { person: wearer }).map(parsed => [parsed.label, parsed.confidence])).toEqual([
+      ['Tie', 0.8],
+      ['Belt', 0.7]
+    ]);
+  });
+
+  it("reads accessories from the person detector's COCO classes", () => {
+    expect(labels([item('handbag', 0.9), item('person', 0.99)], { labels: COCO_ACCESSORY_LABELS })).toEqual(['Handbag']);
+  });
+});
+
+describe('classifyFootwear', () => {
+  const feet: BBox = [100, 260, 100, 40];
+
+  it("names the footwear from the model's best match", async () => {
+    const classifier: ZeroShotClassifier = async () => [
+      { label: 'sneakers', score: 0.3 },
+      { label: 'dress shoes', score: 0.9 }
+    ];
+    const { item, error } = await classifyFootwear('feet', feet, classifier);
+
+    expect([item.label, item.category, item.bbox]).toEqual(['Dress Shoes', 'footwear', feet]);
+    expect(item.confidence).toBeCloseTo(0.75);
+    expect(error).toBeNull();
+  });
+
+  it('reports a failing model instead of throwing', async () => {
+    const classifier: ZeroShotClassifier = async () => {
+      throw new Error('model unavailable');
+    };
+
+    expect(await classifyFootwear('feet', feet, classifier)).toEqual({ item: null, error: 'model unavailable' });
+    expect(await classifyFootwear('feet', feet, null)).toEqual({ item: null, error: null });
+  });
+});
@@ -0,0 +1,196 @@
+import { errorMessage, type ZeroShotClassifier } from './classifier';
+import type { BBox, ClothingItem, ItemCategory, PersonDetection, RawDetection } from './types';
+
+interface ItemLabel {
+  label: string;
+  category: ItemCategory;
+}
+
+// Fashionpedia classes mapped to display names. Of the garment parts only the
+// ones dress codes ask about (collar, lapel, hood) are kept, as 'detail' items;
+// the rest (sleeve, pocket, zipper, ...) are left out of the inventory.
+export const FASHION_ITEM_LABELS: Record<string, ItemLabel> = {
+  'shirt, blouse': { label: 'Shirt', category: 'garment' },
+  'top, t-shirt, sweatshirt': { label: 'Top', category: 'garment' },
+  sweater: { label: 'Sweater', category: 'garment' },
+  cardigan: { label: 'Cardigan', category: 'garment' },
+  jacket: { label: 'Jacket', category: 'garment' },
+  vest: { label: 'Vest', category: 'garment' },
+  pants: { label: 'Pants', category: 'garment' },
+  shorts: { label: 'Shorts', category: 'garment' },
+  skirt: { label: 'Skirt', category: 'garment' },
+  coat: { label: 'Coat', category: 'garment' },
+  dress: { label: 'Dress', category: 'garment' },
+  jumpsuit: { label: 'Jumpsuit', category: 'garment' },
+  cape: { label: 'Cape', category: 'garment' },
+  'tights, stockings': { label: 'Tights', category: 'garment' },
+  'leg warmer': { label: 'Leg Warmers', category: 'garment' },
+  shoe: { label: 'Shoes', category: 'footwear' },
+  sock: { label: 'Socks', category: 'footwear' },
+  glasses: { label: 'Glasses', category: 'accessory' },
+  hat: { label: 'Hat', category: 'accessory' },
+  'headband, head covering, hair accessory': { label: 'Headband', category: 'accessory' },
+  tie: { label: 'Tie', category: 'accessory' },
+  glove: { label: 'Gloves', category: 'accessory' },
+  watch: { label: 'Watch', category: 'accessory' },
+  belt: { label: 'Belt', category: 'accessory' },
+  'bag, wallet': { label: 'Bag', category: 'accessory' },
+  scarf: { label: 'Scarf', category: 'accessory' },
+  umbrella: { label: 'Umbrella', category: 'accessory' },
+  collar: { label: 'Collar', category: 'detail' },
+  lapel: { label: 'Lapel', category: 'detail' },
+  hood: { label: 'Hood', category: 'detail' }
+};
+
+// Detected garments that are worn over a top
+export const OUTER_LAYER_ITEMS = new Set(['Jacket', 'Coat', 'Cardigan']);
+
+export const hasOuterLayerItem = (items: ClothingItem[]) => items.some(item => OUTER_LAYER_ITEMS.has(item.label));
+
+// COCO classes from the person detector that count as accessories
+export const COCO_ACCESSORY_LABELS: Record<string, ItemLabel> = {
+  handbag: { label: 'Handbag', category: 'accessory' },
+  tie: { label: 'Tie', category: 'accessory' },
+  backpack: { label: 'Backpack', category: 'accessory' },
+  umbrella: { label: 'Umbrella', category: 'accessory' },
+  suitcase: { label: 'Suitcase', category: 'accessory' }
+};
+
+export interface ItemParseOptions {
+  minScore?: number;
+  person?: BBox | null; // keep only items overlapping this box
+  labels?: Record<string, ItemLabel>;
+}
+
+export const toBBox = ({ xmin, ymin, xmax, ymax }: RawDetection['box']): BBox => [xmin, ymin, xmax - xmin, ymax - ymin];
+
+// Intersection area over the area of `inner`, 0-1
+export const overlapRatio = (inner: BBox, outer: BBox) => {
+  const [ax, ay, aw, ah] = inner;
+  const [bx, by, bw, bh] = outer;
+  const width = Math.max(0, Math.min(ax + aw, bx + bw) - Math.max(ax, bx));
+  const height = Math.max(0, Math.min(ay + ah, by + bh) - Math.max(ay, by));
+  return aw * ah > 0 ? (width * height) / (aw * ah) : 0;
+};
+
+export const intersectionOverUnion = (a: BBox, b: BBox) => {
+  const [ax, ay, aw, ah] = a;
+  const [bx, by, bw, bh] = b;
+  const width = Math.max(0, Math.min(ax + aw, bx + bw) - Math.max(ax, bx));
+  const height = Math.max(0, Math.min(ay + ah, by + bh) - Math.max(ay, by));
+  const intersection = width * height;
+  const union = aw * ah + bw * bh - intersection;
+  return union > 0 ? intersection / union : 0;
+};
+
+// Highest-scoring person box in a set of COCO detections
+export const bestPersonDetection = (detections: RawDetection[]): PersonDetection | null => {
+  const person = detections
+    .filter(detection => detection.label === 'person')
+    .reduce<RawDetection | null>((best, current) => (current.score > (best?.score ?? 0) ? current : best), null);
+
+  return person ? { bbox: toBBox(person.box), confidence: person.score } : null;
+};
+
+export interface PersonDetectionOptions {
+  minScore?: number;
+  mirrored?: boolean; // the frame is shown flipped, so on-screen order runs right to left
+}
+
+// Every person box above the score threshold with duplicate boxes merged,
+// ordered left to right as they appear on screen so they can be numbered
+export const personDetections = (
+  detections: RawDetection[],
+  { minScore = 0.5, mirrored = false }: PersonDetectionOptions = {}
+): PersonDetection[] => {
+  const people: PersonDetection[] = [];
+  const candidates = detections
+    .filter(detection => detection.label === 'person' && detection.score >= minScore)
+    .sort((a, b) => b.score - a.score);
+
+  for (const detection of candidates) {
+    const bbox = toBBox(detection.box);
+    if (people.some(person => intersectionOverUnion(person.bbox, bbox) > 0.5)) continue;
+    people.push({ bbox, confidence: detection.score });
+  }
+
+  people.sort((a, b) => a.bbox[0] - b.bbox[0]);
+  return mirrored ? people.reverse() : people;
+};
+
+// Index of the detection whose box contains a frame point, preferring the
+// smallest box where people overlap; -1 when the point hits nobody
+export const detectionAt = (detections: PersonDetection[], x: number, y: number) => {
+  let hit = -1;
+  detections.forEach(({ bbox: [left, top, width, height] }, index) => {
+    if (x < left || x > left + width || y < top || y > top + height) return;
+    const [, , hitWidth, hitHeight] = hit >= 0 ? detections[hit].bbox : [0, 0, Infinity, Infinity];
+    if (width * height < hitWidth * hitHeight) hit = index;
+  });
+  return hit;
+};
+
+// Turn raw detector output into an itemized inventory: known labels only,
+// above the score threshold, on the person, with duplicate boxes of the same
+// item merged. Highest-confidence items come first.
+export const parseItemDetections = (
+  detections: RawDetection[],
+  { minScore = 0.5, person = null, labels = FASHION_ITEM_LABELS }: ItemParseOptions = {}
+): ClothingItem[] => {
+  const items: ClothingItem[] = [];
+
+  const candidates = detections
+    .filter(detection => detection.score >= minScore && labels[detection.label])
+    .sort((a, b) => b.score - a.score);
+
+  for (const detection of candidates) {
+    const { label, category } = labels[detection.label];
+    const bbox = toBBox(detection.box);
+    if (person && overlapRatio(bbox, person) < 0.5) continue;
+    if (items.some(item => item.label === label && intersectionOverUnion(item.bbox, bbox) > 0.5)) continue;
+
+    items.push({ label, rawLabel: detection.label, category, bbox, confidence: detection.score });
+  }
+
+  return items;
+};
+
+// Footwear types a zero-shot model can tell apart, keyed by prompt
+export const FOOTWEAR_TYPES: Record<string, string> = {
+  sneakers: 'Sneakers',
+  'dress shoes': 'Dress Shoes',
+  boots: 'Boots',
+  sandals: 'Sandals',
+  'high heels': 'Heels'
+};
+
+export const FOOTWEAR_HYPOTHESIS = 'a photo of a person wearing {}';
+
+export interface FootwearClassification {
+  item: ClothingItem | null;
+  error: string | null; // why the model failed, when it did
+}
+
+// Name the footwear in a crop of the feet with a CLIP-style model, so dress
+// codes can tell sneakers from dress shoes. No item without a model or on error.
+export const classifyFootwear = async <I>(
+  crop: I,
+  bbox: BBox,
+  classifier: ZeroShotClassifier<I> | null
+): Promise<FootwearClassification> => {
+  if (!classifier) return { item: null, error: null };
+
+  try {
+    const results = await classifier(crop, Object.keys(FOOTWEAR_TYPES), { hypothesis_template: FOOTWEAR_HYPOTHESIS });
+    const total = results.reduce((sum, result) => sum + result.score, 0) || 1;
+    const best = results.reduce((top, result) => (result.score > top.score ? result : top), results[0]);
+    if (!best || !FOOTWEAR_TYPES[best.label]) return { item: null, error: null };
+
+    return {
+      item: { label: FOOTWEAR_TYPES[best.label], rawLabel: best.label, category: 'footwear', bbox, confidence: best.score / total },
+      error: null
+    };
+  } catch (error) {
+    return { item: null, error: errorMessage(error) };
+  }
+};
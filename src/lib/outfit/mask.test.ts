@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { analyzePerson } from './analyze';
+import { FIGURE_BOX, FIGURE_DETECTION, figureImage } from './fixtures';
+import { buildClothingMask, maskCoverage, maskWeightAt, type Segment } from './mask';
+
+// Label mask with the given rectangle set to 255
+const segment = (label: string | null, width: number, height: number, [x, y, w, h]: number[]): Segment => {
+  const data = new Uint8Array(width * height);
+  for (let row = y; row < y + h; row++) data.fill(255, row * width + x, row * width + x + w);
+  return { label, mask: { data, width, height } };
+};
+
+describe('buildClothingMask', () => {
+  it('merges the clothing segments and skips skin and background', () => {
+    const mask = buildClothingMask([
+      segment('Upper-clothes', 4, 4, [0, 0, 4, 1]),
+      segment('Pants', 4, 4, [0, 1, 4, 1]),
+      segment('Face', 4, 4, [0, 2, 4, 1]),
+      segment('Background', 4, 4, [0, 3, 4, 1])
+    ]);
+
+    expect(maskCoverage(mask)).toBe(0.5);
+  });
+
+  it('returns null when nothing worn was segmented', () => {
+    expect(buildClothingMask([segment('Face', 4, 4, [0, 0, 4, 4]), segment(null, 4, 4, [0, 0, 1, 1])])).toBeNull();
+  });
+});
+
+describe('maskWeightAt', () => {
+  it('scales frame coordinates to a smaller mask', () => {
+    const mask = buildClothingMask([segment('Upper-clothes', 2, 2, [1, 0, 1, 1])]);
+
+    expect(maskWeightAt(mask, 150, 10, 200, 100)).toBe(1);
+    expect(maskWeightAt(mask, 50, 10, 200, 100)).toBe(0);
+    expect(maskWeightAt(mask, 150, 90, 200, 100)).toBe(0);
+  });
+});
+
+describe('masked analysis', () => {
+  it('ignores pixels the mask leaves out', () => {
+    // A red wall inside the person box, but the mask covers only the clothes
+    const image = figureImage({ top: [255, 255, 255], bottom: [20, 30, 80], background: [200, 16, 46] });
+    const [x, y, width, height] = FIGURE_BOX;
+    const clothes = [x, y + Math.round(height * 0.15), width, Math.round(height * 0.73)];
+    const mask = buildClothingMask([segment('Upper-clothes', image.width, image.height, clothes)]);
+    const analysis = analyzePerson(image, FIGURE_DETECTION, { mask, normalization: false });
+
+    expect(analysis.masked).toBe(true);
+    expect(analysis.palette.map(swatch => swatch.name)).not.toContain('Red');
+    expect(analysis.palette.map(swatch => swatch.name).sort()).toEqual(['Navy', 'White']);
+  });
+
+  it('falls back to every pixel when the mask has no clothing in the box', () => {
+    const image = figureImage({ top: [255, 255, 255], bottom: [20, 30, 80] });
+    const mask = buildClothingMask([segment('Upper-clothes', image.width, image.height, [0, 0, 10, 10])]);
+
+    expect(analyzePerson(image, FIGURE_DETECTION, { mask }).masked).toBe(false);
+  });
+});
@@ -0,0 +1,70 @@
+import type { ClothingMask } from './types';
+
+// Single-channel label mask as produced by an image-segmentation pipeline
+export interface SegmentMask {
+  data: ArrayLike<number>;
+  width: number;
+  height: number;
+  channels?: number;
+}
+
+export interface Segment {
+  label: string | null;
+  mask: SegmentMask;
+}
+
+// Segformer clothes labels that count as worn garments or accessories
+export const CLOTHING_LABELS = new Set([
+  'Hat',
+  'Upper-clothes',
+  'Skirt',
+  'Pants',
+  'Dress',
+  'Belt',
+  'Left-shoe',
+  'Right-shoe',
+  'Bag',
+  'Scarf'
+]);
+
+// Merge every clothing segment into one 0-255 weight mask
+export const buildClothingMask = (segments: Segment[]): ClothingMask | null => {
+  const clothing = segments.filter(segment => segment.label && CLOTHING_LABELS.has(segment.label));
+  if (clothing.length === 0) return null;
+
+  const { width, height } = clothing[0].mask;
+  const data = new Uint8Array(width * height);
+
+  for (const { mask } of clothing) {
+    if (mask.width !== width || mask.height !== height) continue;
+    const channels = mask.channels ?? 1;
+    for (let i = 0; i < data.length; i++) {
+      const value = mask.data[i * channels];
+      if (value > data[i]) data[i] = value;
+    }
+  }
+
+  return { width, height, data };
+};
+
+// Mask weight (0-1) for a frame pixel; the mask may be at a different resolution
+export const maskWeightAt = (
+  mask: ClothingMask,
+  x: number,
+  y: number,
+  frameWidth: number,
+  frameHeight: number
+) => {
+  const mx = Math.min(mask.width - 1, Math.floor((x / frameWidth) * mask.width));
+  const my = Math.min(mask.height - 1, Math.floor((y / frameHeight) * mask.height));
+  return mask.data[my * mask.width + mx] / 255;
+};
+
+// Share of the mask marked as clothing, 0-1
+export const maskCoverage = (mask: ClothingMask) => {
+  let covered = 0;
+  for (let i = 0; i < mask.data.length; i++) {
+    if (mask.data[i] > 0) covered++;
+  }
+  return mask.data.length > 0 ? covered / mask.data.length : 0;
+};
@@ -0,0 +1,61 @@
+export type Locale = 'en';
+
+export type MessageParams = Record<string, string | number>;
+
+export const DEFAULT_LOCALE: Locale = 'en';
+
+// Suggestion text by rule id. Placeholders in braces are filled from the rule's params.
+export const SUGGESTION_MESSAGES: Record<Locale, Record<string, string>> = {
+  en: {
+    'no-person': 'Step into the frame so your whole outfit is visible, then try again',
+    'weather-cold': "It's {conditions}; add a coat before you head out",
+    'weather-wet': "It's {conditions}; bring {fix}",
+    'weather-hot': "It's {temp}°C; {fix}",
+    'weather-windy': 'Winds of {wind} km/h will catch a {item}; tights or a longer layer will keep it in place',
+    'contrast-flat-garments': 'Your {top} top and {bottom} bottoms are close in tone; try {fix}',
+    'occasion-underdressed': 'This reads more casual than {occasion} calls for; {fix}',
+    'occasion-avoid-color': 'Skip the {color} for {occasion}: {reason}',
+    'group-clash': "Person {person}'s {color} clashes with the group; a neutral or a color someone else is wearing would tie in better",
+    'group-dress-up': 'Person {person} reads more casual than the rest of the group; a jacket or darker pieces would bring them in line',
+    'group-dress-down': 'Person {person} is dressier than the rest of the group; drop a layer or swap in a more relaxed piece',
+    'group-shared-color': 'Nobody shares a color; pick one shade, like {color}, for everyone to wear somewhere',
+    'contrast-flat': 'Add more contrast with a clearly lighter or darker piece',
+    'contrast-stark': 'The {darkest} and {lightest} contrast is very strong; a mid-tone layer in grey or camel would soften it',
+    'pattern-clash': 'Two competing patterns ({first} and {second}); anchor one with a solid piece',
+    'pattern-repeat': 'The {pattern} pattern repeats across pieces; swap one for a solid so the other can stand out',
+    'harmony-clash': 'These colors compete with each other; keep one as the accent and build the rest from neutrals',
+    'accessory-clash': 'Your {color} {accessory} clashes with the palette; one in a neutral or a color already in the outfit would tie in better',
+    'accessory-tie': 'A tie would suit this {style} look',
+    'brightness-dark': 'Try adding a lighter accent piece for better balance',
+    'brightness-bright': 'Consider a darker accessory for contrast',
+    'personal-color-face': 'The {color} top sits right by your face and is outside your {season} palette; try shades like {examples}',
+    'occasion-overdressed': 'This is dressier than {occasion} needs; relax one piece',
+    'proportion-halved': 'Your top cuts the outfit in half; a front tuck or a shorter top moves the break up to about a third and lengthens the legs',
+    'proportion-hem-calf': 'The hem lands mid-calf, the widest part of the leg; just below the knee or down to the ankle gives a longer line',
+    'interview-keep-neutral': 'Keep interview outfits mostly neutral and let one muted color carry the look',
+    'single-color': 'Introduce a complementary color',
+    'too-many-colors': 'Simplify with fewer colors for cleaner look',
+    'formal-too-bright': 'Formal looks read stronger in deeper tones; swap a light piece for navy or charcoal',
+    'formal-needs-contrast': 'Sharpen the look with a crisp white shirt against a dark suit or trousers',
+    'streetwear-add-pop': 'All neutrals is safe for the street; add one bold piece like a graphic tee or colored sneakers',
+    'minimalist-drop-color': 'Drop to one or two colors to keep the look truly minimal',
+    'athleisure-brighten': 'Athleisure looks fresher with a lighter layer or bright sneakers',
+    'praise-harmony': 'Great color coordination with your {scheme} palette!',
+    'praise-accessory': 'Your {color} {accessory} picks up the outfit nicely!',
+    'praise-pattern': 'Your {pattern} {garment} stands out well against the solid pieces!',
+    'praise-weather': 'Well layered for {conditions}!',
+    'praise-occasion': 'Right on point for {occasion}!',
+    'praise-personal-color': 'These colors suit your {season} coloring!',
+    'praise-group': 'The group looks coordinated with a shared {scheme} palette!',
+    'praise-proportion': 'Nice proportions: the top and bottom split close to the rule of thirds!',
+    'praise-contrast': 'Nice separation between your top and bottoms!',
+    'praise-balanced': 'Well-balanced outfit!'
+  }
+};
+
+export const formatMessage = (template: string, params: MessageParams = {}) =>
+  template.replace(/\{(\w+)\}/g, (match, key) => (key in params ? String(params[key]) : match));
+
+// Text for a message id in the given locale, falling back to English and then the id itself
+export const translate = (id: string, params?: MessageParams, locale: Locale = DEFAULT_LOCALE) =>
+  formatMessage(SUGGESTION_MESSAGES[locale]?.[id] ?? SUGGESTION_MESSAGES[DEFAULT_LOCALE][id] ?? id, params);
@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest';
+import { colorFamily, isNeutralColor, nameColor } from './naming';
+
+describe('nameColor', () => {
+  it.each([
+    [[200, 16, 46], 'Red'],
+    [[20, 30, 80], 'Navy'],
+    [[248, 248, 248], 'White'],
+    [[128, 128, 128], 'Grey'],
+    [[34, 139, 34], 'Forest Green'],
+    [[30, 200, 30], 'Kelly Green'],
+    [[120, 200, 40], 'Lime'],
+    [[156, 175, 136], 'Sage']
+  ] as const)('names rgb(%j) %s', ([r, g, b], name) => {
+    expect(nameColor(r, g, b).name).toBe(name);
+  });
+
+  it('keeps washed-out pixels on grey-scale names', () => {
+    expect(colorFamily(nameColor(140, 135, 130).name)).toBe('Grey');
+  });
+
+  it('treats navy as a neutral but not bright greens', () => {
+    expect(isNeutralColor('Navy')).toBe(true);
+    expect(isNeutralColor('Kelly Green')).toBe(false);
+  });
+});
@@ -0,0 +1,123 @@
+import { hexToRgb, oklabDistance, oklabToOklch, rgbToOklab, type Oklab } from './color';
+
+// Broad groups the style and suggestion logic reasons about
+export type ColorFamily =
+  | 'Black'
+  | 'Grey'
+  | 'White'
+  | 'Beige'
+  | 'Brown'
+  | 'Red'
+  | 'Orange'
+  | 'Yellow'
+  | 'Green'
+  | 'Blue'
+  | 'Purple'
+  | 'Pink';
+
+export interface FashionColor {
+  name: string;
+  hex: string;
+  family: ColorFamily;
+  neutral: boolean; // pairs with anything: blacks, greys, whites, beiges, navy, camel
+}
+
+export interface ColorMatch {
+  name: string;
+  hex: string;
+  family: ColorFamily;
+  neutral: boolean;
+  distance: number; // OKLab distance between the input and the named color
+}
+
+// Below this OKLCH chroma a pixel is treated as grey and only matched to grey-scale names
+export const ACHROMATIC_CHROMA = 0.03;
+
+export const FASHION_COLORS: FashionColor[] = [
+  { name: 'Black', hex: '#111111', family: 'Black', neutral: true },
+  { name: 'Charcoal', hex: '#36393D', family: 'Grey', neutral: true },
+  { name: 'Grey', hex: '#808080', family: 'Grey', neutral: true },
+  { name: 'Silver', hex: '#C0C0C0', family: 'Grey', neutral: true },
+  { name: 'White', hex: '#F8F8F8', family: 'White', neutral: true },
+  { name: 'Ivory', hex: '#FFFBEA', family: 'White', neutral: true },
+  { name: 'Cream', hex: '#F2E6CE', family: 'Beige', neutral: true },
+  { name: 'Beige', hex: '#D8C3A5', family: 'Beige', neutral: true },
+  { name: 'Khaki', hex: '#C3B091', family: 'Beige', neutral: true },
+  { name: 'Taupe', hex: '#8B7D6B', family: 'Beige', neutral: true },
+  { name: 'Camel', hex: '#C19A6B', family: 'Brown', neutral: true },
+  { name: 'Tan', hex: '#D2B48C', family: 'Brown', neutral: false },
+  { name: 'Brown', hex: '#8B5A2B', family: 'Brown', neutral: false },
+  { name: 'Chocolate', hex: '#4E3020', family: 'Brown', neutral: false },
+  { name: 'Rust', hex: '#B7410E', family: 'Orange', neutral: false },
+  { name: 'Orange', hex: '#F28C28', family: 'Orange', neutral: false },
+  { name: 'Coral', hex: '#FF7F50', family: 'Orange', neutral: false },
+  { name: 'Red', hex: '#C8102E', family: 'Red', neutral: false },
+  { name: 'Burgundy', hex: '#800020', family: 'Red', neutral: false },
+  { name: 'Mustard', hex: '#D4A017', family: 'Yellow', neutral: false },
+  { name: 'Yellow', hex: '#F5D033', family: 'Yellow', neutral: false },
+  { name: 'Olive', hex: '#6B7330', family: 'Green', neutral: false },
+  { name: 'Sage', hex: '#9CAF88', family: 'Green', neutral: false },
+  { name: 'Lime', hex: '#9ACD32', family: 'Green', neutral: false },
+  { name: 'Kelly Green', hex: '#4CBB17', family: 'Green', neutral: false },
+  { name: 'Forest Green', hex: '#228B22', family: 'Green', neutral: false },
+  { name: 'Emerald', hex: '#009B77', family: 'Green', neutral: false },
+  { name: 'Teal', hex: '#008080', family: 'Blue', neutral: false },
+  { name: 'Navy', hex: '#1F2A44', family: 'Blue', neutral: true },
+  { name: 'Denim', hex: '#5A7BA0', family: 'Blue', neutral: false },
+  { name: 'Royal Blue', hex: '#4169E1', family: 'Blue', neutral: false },
+  { name: 'Sky Blue', hex: '#87CEEB', family: 'Blue', neutral: false },
+  { name: 'Lavender', hex: '#B497D6', family: 'Purple', neutral: false },
+  { name: 'Purple', hex: '#6A0DAD', family: 'Purple', neutral: false },
+  { name: 'Plum', hex: '#673147', family: 'Purple', neutral: false },
+  { name: 'Blush', hex: '#E8B4B8', family: 'Pink', neutral: false },
+  { name: 'Pink', hex: '#FF69B4', family: 'Pink', neutral: false }
+];
+
+interface PaletteEntry {
+  color: FashionColor;
+  lab: Oklab;
+  achromatic: boolean;
+}
+
+const PALETTE: PaletteEntry[] = FASHION_COLORS.map(color => {
+  const lab = rgbToOklab(...hexToRgb(color.hex));
+  return { color, lab, achromatic: oklabToOklch(lab).C < ACHROMATIC_CHROMA };
+});
+
+const BY_NAME = new Map(FASHION_COLORS.map(color => [color.name, color]));
+
+// Lookups are quantized to 5 bits per channel (finer than any palette step) and cached
+const cache = new Map<number, ColorMatch>();
+
+export const getFashionColor = (name: string) => BY_NAME.get(name);
+
+export const colorFamily = (name: string): ColorFamily | undefined => BY_NAME.get(name)?.family;
+
+export const isNeutralColor = (name: string) => BY_NAME.get(name)?.neutral ?? false;
+
+// Nearest curated fashion color to an sRGB value. Low-chroma inputs are only
+// compared against grey-scale entries so washed-out pixels never read as a hue.
+export const nameColor = (r: number, g: number, b: number): ColorMatch => {
+  const key = ((r >> 3) << 10) | ((g >> 3) << 5) | (b >> 3);
+  const cached = cache.get(key);
+  if (cached) return cached;
+
+  // Name the centre of the quantization cell so results never depend on lookup order
+  const lab = rgbToOklab((r & ~7) | 4, (g & ~7) | 4, (b & ~7) | 4);
+  const achromatic = oklabToOklch(lab).C < ACHROMATIC_CHROMA;
+
+  let best: PaletteEntry = PALETTE[0];
+  let bestDistance = Infinity;
+  for (const entry of PALETTE) {
+    if (achromatic && !entry.achromatic) continue;
+    const distance = oklabDistance(lab, entry.lab);
+    if (distance < bestDistance) {
+      best = entry;
+      bestDistance = distance;
+    }
+  }
+
+  const match: ColorMatch = { ...best.color, distance: bestDistance };
+  cache.set(key, match);
+  return match;
+};
@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import { analyzePerson } from './analyze';
+import type { Rgb } from './color';
+import { FIGURE_BOX, FIGURE_DETECTION, figureImage, fillRect, solidImage } from './fixtures';
+import { estimateCorrection } from './normalization';
+import type { PixelBuffer } from './types';
+
+const RED: Rgb = [200, 16, 46];
+const WHITE: Rgb = [248, 248, 248];
+const NAVY: Rgb = [20, 30, 80];
+
+// Tint a frame as a colored light would
+const underLight = (image: PixelBuffer, [r, g, b]: [number, number, number]) => {
+  for (let i = 0; i < image.data.length; i += 4) {
+    image.data[i] *= r;
+    image.data[i + 1] *= g;
+    image.data[i + 2] *= b;
+  }
+  return image;
+};
+
+const garmentColors = (image: PixelBuffer) =>
+  analyzePerson(image, FIGURE_DETECTION).garments.map(garment => garment.colors[0]);
+
+describe('estimateCorrection', () => {
+  it('leaves a well exposed neutral frame alone', () => {
+    const correction = estimateCorrection(solidImage(50, 50, [128, 128, 128]));
+
+    expect(correction.gains).toEqual([1, 1, 1]);
+    expect(correction.exposure).toBe(1);
+  });
+
+  it('only compensates exposure outside the acceptable band', () => {
+    expect(estimateCorrection(solidImage(50, 50, [150, 150, 150])).exposure).toBe(1);
+    expect(estimateCorrection(solidImage(50, 50, [40, 40, 40])).exposure).toBeGreaterThan(1);
+    expect(estimateCorrection(solidImage(50, 50, [245, 245, 245])).exposure).toBeLessThan(1);
+  });
+
+  it('ignores saturated colors when reading the cast', () => {
+    const image = fillRect(solidImage(50, 50, [128, 128, 128]), { x: 0, y: 0, width: 50, height: 30 }, RED);
+
+    expect(estimateCorrection(image).gains).toEqual([1, 1, 1]);
+  });
+
+  it('reads the cast from outside the person when there is enough background', () => {
+    const image = figureImage({ top: [225, 170, 130], bottom: [200, 175, 150], background: [128, 128, 128] });
+    const [x, y, width, height] = FIGURE_BOX;
+
+    expect(estimateCorrection(image).gains).not.toEqual([1, 1, 1]);
+    expect(estimateCorrection(image, {}, { x, y, width, height }).gains).toEqual([1, 1, 1]);
+  });
+
+  it('detects a warm cast on the background', () => {
+    const [r, , b] = estimateCorrection(underLight(solidImage(50, 50, [200, 200, 200]), [1, 0.85, 0.65])).gains;
+
+    expect(r).toBeLessThan(1);
+    expect(b).toBeGreaterThan(1);
+  });
+});
+
+describe('normalized analysis', () => {
+  it('keeps true colors in front of a bright white wall', () => {
+    expect(garmentColors(figureImage({ top: RED, bottom: WHITE, background: [240, 240, 240] }))).toEqual([
+      'Red',
+      'White',
+      'Black'
+    ]);
+  });
+
+  it('does not let a beige wall tint white trousers', () => {
+    expect(garmentColors(figureImage({ top: RED, bottom: WHITE, background: [216, 195, 165] }))[1]).toBe('White');
+  });
+
+  it('takes the warm cast off a white shirt', () => {
+    const image = underLight(figureImage({ top: WHITE, bottom: NAVY, background: [200, 200, 200] }), [1, 0.9, 0.75]);
+    const raw = analyzePerson(image, FIGURE_DETECTION, { normalization: false });
+
+    expect(raw.garments[0].colors[0]).toBe('Cream');
+    expect(garmentColors(image)[0]).toBe('White');
+  });
+});
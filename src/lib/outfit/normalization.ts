@@ -0,0 +1,149 @@
+import { getBrightness, oklabToOklch, rgbToOklab } from './color';
+import { forEachSample, fullFrameRegion } from './region';
+import { SAMPLE_STEP } from './samples';
+import type { ColorCorrection, PixelBuffer, Region, WhiteBalanceMethod } from './types';
+
+// Per-channel gains are kept inside this range so a strongly colored scene
+// (a red wall, a green screen) is softened rather than neutralized outright
+const GAIN_LIMITS: [number, number] = [0.67, 1.5];
+
+// Exposure gains stay inside this range; larger swings amplify sensor noise
+const EXPOSURE_LIMITS: [number, number] = [0.75, 2];
+
+// Mean scene brightness that needs no compensation. Frames outside it are
+// brought to the nearest edge, so a bright wall or a dark room is evened out
+// without shifting a frame that was already exposed well.
+const EXPOSURE_BAND: [number, number] = [0.3, 0.7];
+
+// Only pixels below this OKLCH chroma inform gray world: greys, whites and
+// walls tinted by the light, not saturated garments
+const NEAR_NEUTRAL_CHROMA = 0.1;
+
+// Background samples needed before the cast is read from outside the person
+const MIN_BACKGROUND_SAMPLES = 50;
+
+// Gains this close to 1 are sensor noise rather than a cast, and are dropped
+const CAST_TOLERANCE = 0.05;
+
+// Share of the brightest samples treated as the white patch
+const WHITE_PATCH_SHARE = 0.01;
+
+// Samples this close to black or white carry no usable color cast
+const CLIP = 0.04;
+
+const clamp = (value: number, [min, max]: [number, number]) => Math.min(Math.max(value, min), max);
+
+const round = (value: number) => Math.round(value * 1000) / 1000;
+
+export interface NormalizationOptions {
+  method?: WhiteBalanceMethod;
+  exposure?: boolean;
+}
+
+const inside = ({ x, y, width, height }: Region, px: number, py: number) =>
+  px >= x && px < x + width && py >= y && py < y + height;
+
+// Gray world: the neutral surfaces average to grey, so each channel is scaled
+// to the common mean. The cast is read from the background when there is
+// enough of it, so the outfit being judged cannot tint its own correction.
+const grayWorldGains = (image: PixelBuffer, subject: Region | null): [number, number, number] => {
+  const sum = (skipSubject: boolean) => {
+    const sums = [0, 0, 0];
+    let count = 0;
+    forEachSample(image, fullFrameRegion(image), SAMPLE_STEP, (r, g, b, x, y) => {
+      if (skipSubject && inside(subject, x, y)) return;
+      const brightness = getBrightness(r, g, b);
+      if (brightness < CLIP || brightness > 1 - CLIP) return;
+      if (oklabToOklch(rgbToOklab(r, g, b)).C >= NEAR_NEUTRAL_CHROMA) return;
+      sums[0] += r;
+      sums[1] += g;
+      sums[2] += b;
+      count++;
+    });
+    return { sums, count };
+  };
+
+  let { sums, count } = subject ? sum(true) : { sums: [0, 0, 0], count: 0 };
+  if (count < MIN_BACKGROUND_SAMPLES) ({ sums, count } = sum(false));
+  if (count === 0) return [1, 1, 1];
+
+  const gray = (sums[0] + sums[1] + sums[2]) / 3;
+  const gains = sums.map(total => (total > 0 ? clamp(gray / total, GAIN_LIMITS) : 1)) as [number, number, number];
+  return gains.every(gain => Math.abs(gain - 1) < CAST_TOLERANCE) ? [1, 1, 1] : gains;
+};
+
+// White patch: the brightest surfaces are white, so their mean color is scaled to neutral
+const whitePatchGains = (image: PixelBuffer): [number, number, number] => {
+  const samples: [number, number, number, number][] = [];
+  forEachSample(image, fullFrameRegion(image), SAMPLE_STEP, (r, g, b) => {
+    samples.push([getBrightness(r, g, b), r, g, b]);
+  });
+  if (samples.length === 0) return [1, 1, 1];
+
+  samples.sort((a, b) => b[0] - a[0]);
+  const patch = samples.slice(0, Math.max(1, Math.round(samples.length * WHITE_PATCH_SHARE)));
+  const means = [1, 2, 3].map(channel => patch.reduce((sum, sample) => sum + sample[channel], 0) / patch.length);
+  const white = Math.max(...means);
+  return means.map(mean => (mean > 0 ? clamp(white / mean, GAIN_LIMITS) : 1)) as [number, number, number];
+};
+
+const exposureGain = (meanBrightness: number) => {
+  const [low, high] = EXPOSURE_BAND;
+  if (meanBrightness <= 0) return 1;
+  if (meanBrightness < low) return clamp(low / meanBrightness, EXPOSURE_LIMITS);
+  if (meanBrightness > high) return clamp(high / meanBrightness, EXPOSURE_LIMITS);
+  return 1;
+};
+
+// Measure the color cast and exposure of the whole frame (not just the outfit,
+// so a dark outfit in a well-lit room is left dark) and return the correction.
+// `subject` is the person's region, kept out of the cast estimate.
+export const estimateCorrection = (
+  image: PixelBuffer,
+  { method = 'gray-world', exposure = true }: NormalizationOptions = {},
+  subject: Region | null = null
+): ColorCorrection => {
+  const gains = method === 'gray-world'
+    ? grayWorldGains(image, subject)
+    : method === 'white-patch' ? whitePatchGains(image) : [1, 1, 1];
+
+  let brightness = 0;
+  let count = 0;
+  forEachSample(image, fullFrameRegion(image), SAMPLE_STEP, (r, g, b) => {
+    brightness += getBrightness(r * gains[0], g * gains[1], b * gains[2]);
+    count++;
+  });
+  const meanBrightness = count > 0 ? Math.min(brightness / count, 1) : 0;
+  const gain = exposure ? exposureGain(meanBrightness) : 1;
+
+  return {
+    method,
+    gains: gains.map(round) as [number, number, number],
+    exposure: round(gain),
+    brightnessBefore: round(meanBrightness),
+    brightnessAfter: round(Math.min(meanBrightness * gain, 1))
+  };
+};
+
+export const isIdentityCorrection = ({ gains, exposure }: ColorCorrection) =>
+  exposure === 1 && gains.every(gain => gain === 1);
+
+// Copy of the image with the channel gains and exposure applied
+export const applyCorrection = (image: PixelBuffer, correction: ColorCorrection): PixelBuffer => {
+  if (isIdentityCorrection(correction)) return image;
+
+  const [r, g, b] = correction.gains.map(gain => gain * correction.exposure);
+  const data = new Uint8ClampedArray(image.data.length);
+  for (let i = 0; i < image.data.length; i += 4) {
+    data[i] = image.data[i] * r;
+    data[i + 1] = image.data[i + 1] * g;
+    data[i + 2] = image.data[i + 2] * b;
+    data[i + 3] = image.data[i + 3];
+  }
+  return { data, width: image.width, height: image.height };
+};
+
+export const normalizeImage = (image: PixelBuffer, options: NormalizationOptions = {}, subject: Region | null = null) => {
+  const correction = estimateCorrection(image, options, subject);
+  return { image: applyCorrection(image, correction), correction };
+};
@@ -0,0 +1,208 @@
+import { colorFamily, isNeutralColor, type ColorFamily } from './naming';
+import { profileStyleLabel, type ScoringProfile } from './profiles';
+import type { SuggestionRule } from './suggestions';
+import type { OccasionFit, PaletteSwatch } from './types';
+
+export interface Occasion {
+  id: string;
+  label: string;
+  phrase: string; // how suggestions refer to it, e.g. 'a job interview'
+  description: string;
+  formality: number | null; // expected formality 0 (gym) - 1 (black tie); null expects nothing
+  preferredFamilies: ColorFamily[];
+  avoidFamilies: ColorFamily[];
+  avoidReason?: string; // why the avoided colors are a poor fit, shown in suggestions
+  // Occasion-specific names for determineStyle's labels; these win over the profile's
+  styleLabels: Record<string, string>;
+  rules: SuggestionRule[];
+  maxPoints: number; // weight of the occasion-fit criterion; 0 leaves it out
+  custom?: boolean;
+}
+
+// A user-defined occasion as stored in the user profile (data only, no rules)
+export interface CustomOccasion {
+  id: string;
+  label: string;
+  formality: number;
+  avoidFamilies: ColorFamily[];
+  preferredFamilies: ColorFamily[];
+}
+
+export const DEFAULT_OCCASION_ID = 'everyday';
+
+// A formality gap this wide or wider earns no occasion points
+const MAX_FORMALITY_GAP = 0.5;
+
+// Avoided colors covering less than this share of the outfit are ignored
+const AVOID_COVERAGE = 0.1;
+
+// Rough formality of determineStyle's labels, 0-1
+const STYLE_FORMALITY: Record<string, number> = {
+  Professional: 0.9,
+  'Elegant & Sophisticated': 0.8,
+  'Business Casual': 0.65,
+  'Minimal & Classic': 0.6,
+  'Fresh & Light': 0.4,
+  'Natural & Relaxed': 0.35,
+  'Bold & Confident': 0.35,
+  Casual: 0.2
+};
+
+export const OCCASION_PRESETS: Occasion[] = [
+  {
+    id: 'everyday',
+    label: 'Everyday',
+    phrase: 'everyday wear',
+    description: 'No particular dress code',
+    formality: null,
+    preferredFamilies: [],
+    avoidFamilies: [],
+    styleLabels: {},
+    rules: [],
+    maxPoints: 0
+  },
+  {
+    id: 'job-interview',
+    label: 'Job Interview',
+    phrase: 'a job interview',
+    description: 'Polished, conservative and mostly neutral',
+    formality: 0.85,
+    preferredFamilies: ['Blue', 'Grey', 'Black', 'White'],
+    avoidFamilies: ['Orange', 'Yellow', 'Pink'],
+    avoidReason: 'loud colors pull attention away from you',
+    styleLabels: {
+      Professional: 'Interview Ready',
+      'Business Casual': 'Smart Interview',
+      Casual: 'Too Casual for an Interview',
+      'Bold & Confident': 'Too Loud for an Interview'
+    },
+    rules: [
+      {
+        id: 'interview-keep-neutral',
+        severity: 'tip',
+        priority: 62,
+        when: ({ palette }) => new Set(palette.filter(swatch => !isNeutralColor(swatch.name)).map(swatch => swatch.name)).size > 1
+      }
+    ],
+    maxPoints: 2
+  },
+  {
+    id: 'wedding-guest',
+    label: 'Wedding Guest',
+    phrase: 'a wedding',
+    description: 'Dressy and festive without upstaging the couple',
+    formality: 0.7,
+    preferredFamilies: ['Pink', 'Blue', 'Green', 'Purple'],
+    avoidFamilies: ['White'],
+    avoidReason: 'white is traditionally left to the bride',
+    styleLabels: {
+      'Fresh & Light': 'Garden Party',
+      'Elegant & Sophisticated': 'Evening Guest',
+      Casual: 'Underdressed for a Wedding'
+    },
+    rules: [],
+    maxPoints: 2
+  },
+  {
+    id: 'date-night',
+    label: 'Date Night',
+    phrase: 'date night',
+    description: 'Confident, a little dressed up',
+    formality: 0.55,
+    preferredFamilies: ['Red', 'Black', 'Purple'],
+    avoidFamilies: [],
+    styleLabels: {
+      'Bold & Confident': 'Date Night Statement',
+      'Elegant & Sophisticated': 'Date Night Elegant'
+    },
+    rules: [],
+    maxPoints: 1.5
+  },
+  {
+    id: 'gym',
+    label: 'Gym',
+    phrase: 'the gym',
+    description: 'Practical, sporty and easy to move in',
+    formality: 0.1,
+    preferredFamilies: [],
+    avoidFamilies: [],
+    styleLabels: {
+      Professional: 'Overdressed for the Gym',
+      'Elegant & Sophisticated': 'Overdressed for the Gym',
+      Casual: 'Gym Ready',
+      'Bold & Confident': 'Gym Energy'
+    },
+    rules: [],
+    maxPoints: 1.5
+  }
+];
+
+export const customOccasion = ({ id, label, formality, avoidFamilies, preferredFamilies }: CustomOccasion): Occasion => ({
+  id,
+  label,
+  phrase: label.toLowerCase(),
+  description: 'Custom occasion',
+  formality,
+  preferredFamilies,
+  avoidFamilies,
+  styleLabels: {},
+  rules: [],
+  maxPoints: 1.5,
+  custom: true
+});
+
+export const getOccasion = (id: string | undefined, custom: CustomOccasion[] = []): Occasion =>
+  OCCASION_PRESETS.find(occasion => occasion.id === id)
+  ?? custom.map(customOccasion).find(occasion => occasion.id === id)
+  ?? OCCASION_PRESETS[0];
+
+// Occasion labels first, then the scoring profile's, then determineStyle's own
+export const occasionStyleLabel = (occasion: Occasion, profile: ScoringProfile, style: string) =>
+  occasion.styleLabels[style] ?? profileStyleLabel(profile, style);
+
+export const occasionSuggestionRules = (occasion: Occasion, baseRules: SuggestionRule[]) => [
+  ...baseRules,
+  ...occasion.rules
+];
+
+// How formal the outfit reads: the style label sets the level, and a mostly
+// neutral palette nudges it up while lots of color nudges it down
+export const estimateFormality = (style: string, palette: PaletteSwatch[]) => {
+  const total = palette.reduce((sum, swatch) => sum + swatch.coverage, 0) || 1;
+  const neutralShare = palette.filter(swatch => isNeutralColor(swatch.name))
+    .reduce((sum, swatch) => sum + swatch.coverage, 0) / total;
+  const formality = (STYLE_FORMALITY[style] ?? 0.4) + (neutralShare - 0.5) * 0.2;
+  return Math.round(Math.min(Math.max(formality, 0), 1) * 100) / 100;
+};
+
+// Compare the outfit with what the occasion expects
+export const evaluateOccasion = (occasion: Occasion, baseStyle: string, palette: PaletteSwatch[]): OccasionFit => {
+  const total = palette.reduce((sum, swatch) => sum + swatch.coverage, 0) || 1;
+  const present = (families: ColorFamily[], minCoverage: number) => [
+    ...new Set(
+      palette
+        .filter(swatch => families.includes(colorFamily(swatch.name)) && swatch.coverage / total >= minCoverage)
+        .map(swatch => swatch.name)
+    )
+  ];
+  const formality = estimateFormality(baseStyle, palette);
+
+  return {
+    id: occasion.id,
+    label: occasion.label,
+    phrase: occasion.phrase,
+    expectedFormality: occasion.formality,
+    formality,
+    formalityGap: occasion.formality === null ? 0 : Math.round((formality - occasion.formality) * 100) / 100,
+    avoidedColors: present(occasion.avoidFamilies, AVOID_COVERAGE),
+    preferredColors: present(occasion.preferredFamilies, 0),
+    avoidReason: occasion.avoidReason ?? null
+  };
+};
+
+// Points for the occasion-fit criterion: a formality match, minus half the
+// points when the outfit leans on colors the occasion avoids
+export const occasionPoints = (fit: OccasionFit, maxPoints: number) => {
+  const match = 1 - Math.min(Math.abs(fit.formalityGap) / MAX_FORMALITY_GAP, 1);
+  return maxPoints * match * (fit.avoidedColors.length > 0 ? 0.5 : 1);
+};
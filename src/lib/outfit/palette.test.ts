@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { fillRect, solidImage } from './fixtures';
+import { extractPalette, paletteColorNames } from './palette';
+import { sampleColors } from './samples';
+import type { PixelBuffer } from './types';
+
+const everyPixel = () => 1;
+
+const binsOf = (image: PixelBuffer) =>
+  sampleColors(image, { x: 0, y: 0, width: image.width, height: image.height }, everyPixel).bins;
+
+// 60% navy, 30% white and 10% red, in horizontal bands
+const threeBands = () => {
+  const image = solidImage(100, 100, [20, 30, 80]);
+  fillRect(image, { x: 0, y: 60, width: 100, height: 30 }, [255, 255, 255]);
+  fillRect(image, { x: 0, y: 90, width: 100, height: 10 }, [200, 16, 46]);
+  return image;
+};
+
+describe('extractPalette', () => {
+  it('finds each color with its share of the pixels', () => {
+    const palette = extractPalette(binsOf(threeBands()));
+
+    expect(palette.map(swatch => swatch.name)).toEqual(['Navy', 'White', 'Red']);
+    expect(palette.map(swatch => Math.round(swatch.coverage * 10) / 10)).toEqual([0.6, 0.3, 0.1]);
+  });
+
+  it('has coverage summing to 1', () => {
+    const total = extractPalette(binsOf(threeBands())).reduce((sum, swatch) => sum + swatch.coverage, 0);
+
+    expect(total).toBeCloseTo(1);
+  });
+
+  it('stops at k clusters', () => {
+    expect(extractPalette(binsOf(threeBands()), { k: 2 })).toHaveLength(2);
+  });
+
+  it('drops swatches below the minimum coverage', () => {
+    const names = extractPalette(binsOf(threeBands()), { minCoverage: 0.2 }).map(swatch => swatch.name);
+
+    expect(names).toEqual(['Navy', 'White']);
+  });
+
+  it('returns the same palette on every run', () => {
+    expect(extractPalette(binsOf(threeBands()))).toEqual(extractPalette(binsOf(threeBands())));
+  });
+
+  it('is empty with nothing sampled', () => {
+    expect(extractPalette([])).toEqual([]);
+  });
+});
+
+describe('paletteColorNames', () => {
+  it('lists distinct names, most coverage first', () => {
+    expect(paletteColorNames(extractPalette(binsOf(threeBands())), 2)).toEqual(['Navy', 'White']);
+  });
+});
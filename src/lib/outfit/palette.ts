@@ -0,0 +1,127 @@
+import { oklabDistance, rgbToHex, rgbToOklab, type Oklab, type Rgb } from './color';
+import { nameColor } from './naming';
+import type { ColorBin } from './samples';
+import type { PaletteSwatch } from './types';
+
+export interface PaletteOptions {
+  k?: number;
+  iterations?: number;
+  minCoverage?: number; // swatches covering less than this share are dropped
+}
+
+interface Point {
+  lab: Oklab;
+  rgb: Rgb;
+  weight: number;
+}
+
+interface Cluster {
+  center: Oklab;
+  r: number;
+  g: number;
+  b: number;
+  weight: number;
+}
+
+const nearest = (lab: Oklab, centers: Oklab[]) => {
+  let best = 0;
+  let bestDistance = Infinity;
+  centers.forEach((center, index) => {
+    const distance = oklabDistance(lab, center);
+    if (distance < bestDistance) {
+      best = index;
+      bestDistance = distance;
+    }
+  });
+  return { index: best, distance: bestDistance };
+};
+
+// Deterministic maximin seeding: start from the heaviest color, then keep
+// adding the color that is both common and far from every chosen centre.
+const seedCenters = (points: Point[], k: number) => {
+  const heaviest = points.reduce((best, point) => (point.weight > best.weight ? point : best));
+  const centers: Oklab[] = [heaviest.lab];
+
+  while (centers.length < k) {
+    let candidate: Point | null = null;
+    let candidateScore = 0;
+    for (const point of points) {
+      const { distance } = nearest(point.lab, centers);
+      const score = point.weight * distance * distance;
+      if (score > candidateScore) {
+        candidate = point;
+        candidateScore = score;
+      }
+    }
+    if (!candidate) break; // fewer distinct colors than k
+    centers.push(candidate.lab);
+  }
+
+  return centers;
+};
+
+// Weighted k-means in OKLab over the sampled color bins. Returns one swatch per
+// cluster with its mean sRGB color and the share of sampled pixels it covers.
+export const extractPalette = (
+  bins: ColorBin[],
+  { k = 5, iterations = 10, minCoverage = 0.03 }: PaletteOptions = {}
+): PaletteSwatch[] => {
+  const points: Point[] = bins
+    .filter(bin => bin.weight > 0)
+    .map(bin => ({ lab: rgbToOklab(bin.r, bin.g, bin.b), rgb: [bin.r, bin.g, bin.b], weight: bin.weight }));
+  if (points.length === 0) return [];
+
+  let centers = seedCenters(points, Math.min(k, points.length));
+  let clusters: Cluster[] = [];
+
+  for (let iteration = 0; iteration < iterations; iteration++) {
+    clusters = centers.map(() => ({ center: { L: 0, a: 0, b: 0 }, r: 0, g: 0, b: 0, weight: 0 }));
+
+    for (const point of points) {
+      const cluster = clusters[nearest(point.lab, centers).index];
+      cluster.center.L += point.lab.L * point.weight;
+      cluster.center.a += point.lab.a * point.weight;
+      cluster.center.b += point.lab.b * point.weight;
+      cluster.r += point.rgb[0] * point.weight;
+      cluster.g += point.rgb[1] * point.weight;
+      cluster.b += point.rgb[2] * point.weight;
+      cluster.weight += point.weight;
+    }
+
+    const next = clusters.map((cluster, index) =>
+      cluster.weight > 0
+        ? {
+            L: cluster.center.L / cluster.weight,
+            a: cluster.center.a / cluster.weight,
+            b: cluster.center.b / cluster.weight
+          }
+        : centers[index]
+    );
+    const moved = next.some((center, index) => oklabDistance(center, centers[index]) > 1e-4);
+    centers = next;
+    if (!moved) break;
+  }
+
+  const totalWeight = clusters.reduce((sum, cluster) => sum + cluster.weight, 0);
+
+  return clusters
+    .filter(cluster => cluster.weight > 0 && cluster.weight / totalWeight >= minCoverage)
+    .map(cluster => {
+      const rgb: Rgb = [
+        Math.round(cluster.r / cluster.weight),
+        Math.round(cluster.g / cluster.weight),
+        Math.round(cluster.b / cluster.weight)
+      ];
+      return {
+        rgb,
+        hex: rgbToHex(...rgb),
+        name: nameColor(...rgb).name,
+        coverage: cluster.weight / totalWeight
+      };
+    })
+    .sort((a, b) => b.coverage - a.coverage);
+};
+
+// Distinct color names in the palette, most coverage first
+export const paletteColorNames = (palette: PaletteSwatch[], count = 3) =>
+  Array.from(new Set(palette.map(swatch => swatch.name))).slice(0, count);
@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import { analyzePerson } from './analyze';
+import type { Rgb } from './color';
+import { FIGURE_DETECTION, checkerboard, figureImage, fillRect, solidImage } from './fixtures';
+import type { ZeroShotClassifier } from './classifier';
+import { PATTERN_PROMPTS, analyzePattern, classifyPatterns, isPatterned, patternKinds } from './patterns';
+
+const RED: Rgb = [200, 16, 46];
+const WHITE: Rgb = [250, 250, 250];
+const zone = { x: 0, y: 0, width: 110, height: 90 };
+const everyPixel = () => 1;
+
+const patternOf = (color: Rgb | ((x: number, y: number) => Rgb)) =>
+  analyzePattern(fillRect(solidImage(zone.width, zone.height, WHITE), zone, color), zone, everyPixel)?.kind;
+
+describe('analyzePattern', () => {
+  it('reads a plain fabric as solid', () => {
+    expect(patternOf(RED)).toBe('solid');
+  });
+
+  it.each([3, 6, 10, 16, 24])('reads a balanced %ipx check as checked', size => {
+    expect(patternOf(checkerboard(RED, WHITE, size))).toBe('checked');
+  });
+
+  it('reads horizontal and vertical stripes as striped', () => {
+    expect(patternOf((x, y) => (Math.floor(y / 8) % 2 ? RED : WHITE))).toBe('striped');
+    expect(patternOf(x => (Math.floor(x / 8) % 2 ? RED : WHITE))).toBe('striped');
+  });
+
+  it('reads scattered blobs as floral', () => {
+    // Irregularly spaced petals, 30 of them
+    const blobs = Array.from({ length: 30 }, (_, i) => [(i * 37) % 110, (i * 23 + ((i * i) % 17)) % 90]);
+    expect(patternOf((x, y) => (blobs.some(([bx, by]) => (x - bx) ** 2 + (y - by) ** 2 < 25) ? RED : WHITE))).toBe('floral');
+  });
+
+  it('skips zones too small to judge', () => {
+    expect(analyzePattern(solidImage(4, 4, RED), { x: 0, y: 0, width: 4, height: 4 }, everyPixel)).toBeNull();
+  });
+});
+
+describe('garment patterns', () => {
+  it('finds a checked shirt without inventing an outer layer', () => {
+    const image = figureImage({ top: RED, bottom: [20, 30, 80] });
+    fillRect(image, { x: 50, y: 59, width: 100, height: 91 }, checkerboard(RED, WHITE, 10));
+    const { garments } = analyzePerson(image, FIGURE_DETECTION);
+
+    expect(garments.map(garment => [garment.kind, garment.pattern?.kind])).toEqual([
+      ['top', 'checked'],
+      ['bottom', 'solid'],
+      ['footwear', 'solid']
+    ]);
+    expect(isPatterned(garments[0].pattern)).toBe(true);
+    expect(patternKinds(garments)).toEqual(['checked']);
+  });
+});
+
+describe('classifyPatterns', () => {
+  it("labels each garment with the model's best pattern", async () => {
+    const classifier: ZeroShotClassifier = async () => [
+      { label: PATTERN_PROMPTS.solid, score: 0.2 },
+      { label: PATTERN_PROMPTS.striped, score: 0.6 }
+    ];
+    const { patterns, errors } = await classifyPatterns({ top: 'top crop' }, classifier);
+
+    expect(patterns.top).toMatchObject({ kind: 'striped', source: 'model' });
+    expect(patterns.top.confidence).toBeCloseTo(0.75);
+    expect(errors).toEqual({});
+  });
+
+  it('leaves out and reports the garments the model failed on', async () => {
+    const classifier: ZeroShotClassifier = async crop => {
+      if (crop === 'bottom crop') throw new Error('bad crop');
+      return [{ label: PATTERN_PROMPTS.solid, score: 1 }];
+    };
+    const { patterns, errors } = await classifyPatterns({ top: 'top crop', bottom: 'bottom crop' }, classifier);
+
+    expect(Object.keys(patterns)).toEqual(['top']);
+    expect(errors).toEqual({ bottom: 'bad crop' });
+  });
+});
@@ -0,0 +1,290 @@
+import { errorMessage, type ZeroShotClassifier } from './classifier';
+import { getBrightness } from './color';
+import type { PixelWeight } from './samples';
+import type { GarmentAnalysis, GarmentKind, PatternAnalysis, PatternKind, PixelBuffer, Region } from './types';
+
+export const PATTERN_LABELS: Record<PatternKind, string> = {
+  solid: 'Solid',
+  striped: 'Striped',
+  checked: 'Checked',
+  floral: 'Floral',
+  graphic: 'Graphic'
+};
+
+// Luminance grid resolution along each side of a garment zone
+const GRID = 64;
+
+// Fewer usable cells than this and the zone is too small to judge
+const MIN_CELLS = 64;
+
+// Luminance step between neighbouring cells that counts as an edge
+const EDGE_STEP = 0.06;
+
+// Edge density below this reads as a plain fabric
+const SOLID_EDGES = 0.06;
+
+// Share of the luminance variance one axis must explain to read as stripes
+const STRIPE_SHARE = 0.6;
+
+// Both axes must explain at least this share for a check
+const CHECK_SHARE = 0.2;
+
+// Share of the luminance variance a repeating row-times-column pattern must
+// explain for a balanced check, whose row and column means are flat
+const CHECK_PRODUCT_SHARE = 0.5;
+
+// Power iterations when fitting that pattern; it converges in a handful
+const PRODUCT_ITERATIONS = 20;
+
+// Edges this many times denser in the centre than the rest suggest a printed motif
+const GRAPHIC_CONCENTRATION = 2;
+
+const clamp01 = (value: number) => Math.min(Math.max(value, 0), 1);
+
+const mean = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / (values.length || 1);
+
+const variance = (values: number[]) => {
+  const average = mean(values);
+  return mean(values.map(value => (value - average) ** 2));
+};
+
+// Sign changes around the mean: two per repeat of a periodic profile
+const crossings = (profile: number[]) => {
+  const average = mean(profile);
+  let count = 0;
+  for (let i = 1; i < profile.length; i++) {
+    if ((profile[i - 1] - average) * (profile[i] - average) < 0) count++;
+  }
+  return count;
+};
+
+// A balanced check or gingham averages out along every row and column, so the
+// mean profiles miss it. What is left after removing the row and column means
+// is then close to one repeating row profile times one repeating column
+// profile. Fit that product (the residual's dominant singular vectors, by
+// power iteration) and return the share of variance it explains, or 0 when
+// either profile does not repeat, as with a single printed block.
+const checkProductShare = (grid: number[], rows: number, cols: number) => {
+  const rowSums = new Array(rows).fill(0);
+  const rowCounts = new Array(rows).fill(0);
+  const colSums = new Array(cols).fill(0);
+  const colCounts = new Array(cols).fill(0);
+  for (let row = 0; row < rows; row++) {
+    for (let col = 0; col < cols; col++) {
+      const value = grid[row * cols + col];
+      if (Number.isNaN(value)) continue;
+      rowSums[row] += value;
+      rowCounts[row]++;
+      colSums[col] += value;
+      colCounts[col]++;
+    }
+  }
+  const count = rowCounts.reduce((sum, value) => sum + value, 0);
+  if (count === 0) return 0;
+  const grand = rowSums.reduce((sum, value) => sum + value, 0) / count;
+
+  let totalSquares = 0;
+  const residual = grid.map((value, i) => {
+    if (Number.isNaN(value)) return 0;
+    const row = Math.floor(i / cols);
+    const col = i % cols;
+    totalSquares += (value - grand) ** 2;
+    return value - rowSums[row] / rowCounts[row] - colSums[col] / colCounts[col] + grand;
+  });
+  if (totalSquares === 0) return 0;
+
+  // Start from the strongest row so the iteration is not orthogonal to the answer
+  let start = 0;
+  let startNorm = 0;
+  for (let row = 0; row < rows; row++) {
+    const norm = residual.slice(row * cols, (row + 1) * cols).reduce((sum, value) => sum + value * value, 0);
+    if (norm > startNorm) {
+      start = row;
+      startNorm = norm;
+    }
+  }
+  if (startNorm === 0) return 0;
+
+  let colProfile = residual.slice(start * cols, (start + 1) * cols);
+  let rowProfile: number[] = [];
+  for (let iteration = 0; iteration < PRODUCT_ITERATIONS; iteration++) {
+    const norm = Math.sqrt(colProfile.reduce((sum, value) => sum + value * value, 0)) || 1;
+    colProfile = colProfile.map(value => value / norm);
+    rowProfile = Array.from({ length: rows }, (_, row) =>
+      colProfile.reduce((sum, weight, col) => sum + residual[row * cols + col] * weight, 0)
+    );
+    colProfile = Array.from({ length: cols }, (_, col) =>
+      rowProfile.reduce((sum, weight, row) => sum + residual[row * cols + col] * weight, 0)
+    );
+  }
+
+  // With a unit column profile, the row profile's energy is the explained variance
+  const explained = rowProfile.reduce((sum, value) => sum + value * value, 0);
+  // Three crossings is a cell and a half each way; a single block has only two
+  const repeats = crossings(rowProfile) >= 3 && crossings(colProfile) >= 3;
+  return repeats ? explained / totalSquares : 0;
+};
+
+const result = (kind: PatternKind, confidence: number, edgeDensity: number): PatternAnalysis => ({
+  kind,
+  label: PATTERN_LABELS[kind],
+  confidence: clamp01(confidence),
+  source: 'heuristic',
+  edgeDensity
+});
+
+// Classify the fabric pattern of a garment zone from edge and frequency
+// statistics on a coarse luminance grid. Stripes put nearly all luminance
+// variance on one axis (row or column means), plaids split it across both,
+// balanced checks repeat in both directions at once (see checkProductShare),
+// graphics concentrate edges in the middle of the zone and florals scatter
+// edges evenly. Cells outside the clothing weight are skipped.
+export const analyzePattern = (
+  image: PixelBuffer,
+  region: Region,
+  weightOf: PixelWeight
+): PatternAnalysis | null => {
+  const cols = Math.min(GRID, region.width);
+  const rows = Math.min(GRID, region.height);
+  if (cols < 2 || rows < 2) return null;
+
+  const grid: number[] = new Array(cols * rows);
+  const values: number[] = [];
+  for (let row = 0; row < rows; row++) {
+    for (let col = 0; col < cols; col++) {
+      const x = region.x + Math.floor(((col + 0.5) * region.width) / cols);
+      const y = region.y + Math.floor(((row + 0.5) * region.height) / rows);
+      if (weightOf(x, y) <= 0) {
+        grid[row * cols + col] = NaN;
+        continue;
+      }
+      const i = (y * image.width + x) * 4;
+      const luminance = getBrightness(image.data[i], image.data[i + 1], image.data[i + 2]);
+      grid[row * cols + col] = luminance;
+      values.push(luminance);
+    }
+  }
+  if (values.length < MIN_CELLS) return null;
+
+  // Edges between horizontal and vertical neighbours, split by centre vs rim
+  let pairs = 0;
+  let edges = 0;
+  let centerPairs = 0;
+  let centerEdges = 0;
+  const isCenter = (row: number, col: number) =>
+    row >= rows / 4 && row < (rows * 3) / 4 && col >= cols / 4 && col < (cols * 3) / 4;
+
+  for (let row = 0; row < rows; row++) {
+    for (let col = 0; col < cols; col++) {
+      const here = grid[row * cols + col];
+      if (Number.isNaN(here)) continue;
+      const neighbours = [
+        col + 1 < cols ? grid[row * cols + col + 1] : NaN,
+        row + 1 < rows ? grid[(row + 1) * cols + col] : NaN
+      ];
+      for (const next of neighbours) {
+        if (Number.isNaN(next)) continue;
+        const edge = Math.abs(next - here) >= EDGE_STEP ? 1 : 0;
+        pairs++;
+        edges += edge;
+        if (isCenter(row, col)) {
+          centerPairs++;
+          centerEdges += edge;
+        }
+      }
+    }
+  }
+
+  const edgeDensity = pairs > 0 ? edges / pairs : 0;
+  const rimPairs = pairs - centerPairs;
+  const centerDensity = centerPairs > 0 ? centerEdges / centerPairs : 0;
+  const rimDensity = rimPairs > 0 ? (edges - centerEdges) / rimPairs : 0;
+  // A small chest print leaves the overall density low, so look at the centre too
+  if (Math.max(edgeDensity, centerDensity) < SOLID_EDGES) {
+    return result('solid', 1 - edgeDensity / SOLID_EDGES / 2, edgeDensity);
+  }
+
+  // Row and column mean profiles: the frequency view of the zone
+  const profile = (count: number, cell: (index: number, step: number) => number, steps: number) =>
+    Array.from({ length: count }, (_, index) => {
+      const cells = Array.from({ length: steps }, (__, step) => cell(index, step)).filter(value => !Number.isNaN(value));
+      return cells.length > 0 ? mean(cells) : NaN;
+    }).filter(value => !Number.isNaN(value));
+
+  const rowMeans = profile(rows, (row, col) => grid[row * cols + col], cols);
+  const colMeans = profile(cols, (col, row) => grid[row * cols + col], rows);
+  const totalVariance = variance(values) || 1;
+  const rowShare = variance(rowMeans) / totalVariance;
+  const colShare = variance(colMeans) / totalVariance;
+
+  const [major, minor, majorProfile] = rowShare >= colShare
+    ? [rowShare, colShare, rowMeans]
+    : [colShare, rowShare, colMeans];
+  if (major >= STRIPE_SHARE && minor < CHECK_SHARE && crossings(majorProfile) >= 4) {
+    return result('striped', major, edgeDensity);
+  }
+  if (minor >= CHECK_SHARE) return result('checked', (rowShare + colShare) / 1.2, edgeDensity);
+
+  const productShare = checkProductShare(grid, rows, cols);
+  if (productShare >= CHECK_PRODUCT_SHARE) return result('checked', productShare, edgeDensity);
+
+  const concentration = rimDensity > 0 ? centerDensity / rimDensity : centerDensity > 0 ? Infinity : 1;
+  if (concentration >= GRAPHIC_CONCENTRATION) {
+    return result('graphic', (concentration - 1) / (GRAPHIC_CONCENTRATION * 2), edgeDensity);
+  }
+
+  return result('floral', 1 - major - minor, edgeDensity);
+};
+
+export const isPatterned = (pattern: PatternAnalysis | null) => !!pattern && pattern.kind !== 'solid';
+
+// Distinct patterns worn together, in garment order
+export const patternKinds = (garments: GarmentAnalysis[]) =>
+  [...new Set(garments.filter(garment => isPatterned(garment.pattern)).map(garment => garment.pattern.kind))];
+
+// Prompts for a CLIP-style model, one per pattern
+export const PATTERN_PROMPTS: Record<PatternKind, string> = {
+  solid: 'plain solid-colored',
+  striped: 'striped',
+  checked: 'plaid or checked',
+  floral: 'floral print',
+  graphic: 'graphic print'
+};
+
+export const PATTERN_HYPOTHESIS = 'a photo of {} fabric';
+
+export interface PatternClassification {
+  patterns: Partial<Record<GarmentKind, PatternAnalysis>>;
+  errors: Partial<Record<GarmentKind, string>>; // why the model failed on a garment
+}
+
+// Classify garment crops with a zero-shot model. Garments the model cannot
+// label (no classifier, no crop, or an error) are left out, so the caller
+// keeps the heuristic result for them; errors are reported per garment.
+export const classifyPatterns = async <I>(
+  crops: Partial<Record<GarmentKind, I>>,
+  classifier: ZeroShotClassifier<I> | null
+): Promise<PatternClassification> => {
+  const patterns: Partial<Record<GarmentKind, PatternAnalysis>> = {};
+  const errors: Partial<Record<GarmentKind, string>> = {};
+  if (!classifier) return { patterns, errors };
+
+  const kinds = Object.keys(PATTERN_PROMPTS) as PatternKind[];
+  for (const [garment, crop] of Object.entries(crops) as [GarmentKind, I][]) {
+    try {
+      const results = await classifier(crop, kinds.map(kind => PATTERN_PROMPTS[kind]), {
+        hypothesis_template: PATTERN_HYPOTHESIS
+      });
+      const total = results.reduce((sum, entry) => sum + entry.score, 0) || 1;
+      const best = results.reduce((top, entry) => (entry.score > top.score ? entry : top), results[0]);
+      const kind = kinds.find(candidate => PATTERN_PROMPTS[candidate] === best?.label);
+      if (kind) {
+        patterns[garment] = { kind, label: PATTERN_LABELS[kind], confidence: best.score / total, source: 'model', edgeDensity: null };
+      }
+    } catch (error) {
+      errors[garment] = errorMessage(error);
+    }
+  }
+
+  return { patterns, errors };
+};
@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest';
+import { analyzePerson } from './analyze';
+import { FIGURE_BOX, FIGURE_DETECTION, figureImage, solidImage } from './fixtures';
+import { evaluateDressCode, parseDressCodePolicy } from './policy';
+import type { ClothingItem } from './types';
+
+const item = (label: string, category: ClothingItem['category'] = 'garment'): ClothingItem => ({
+  label,
+  rawLabel: label.toLowerCase(),
+  category,
+  bbox: FIGURE_BOX,
+  confidence: 0.9
+});
+
+const headOffice = parseDressCodePolicy({
+  id: 'head-office',
+  name: 'Head Office',
+  rules: [
+    { id: 'no-sneakers', type: 'forbid-items', items: ['Sneakers'] },
+    { id: 'collar', type: 'require-items', items: ['Collar', 'Lapel'] },
+    { id: 'colors', type: 'max-colors', max: 2 },
+    { id: 'no-red', type: 'forbid-colors', families: ['Red'], severity: 'warn' }
+  ]
+});
+
+const statuses = (report: ReturnType<typeof evaluateDressCode>) =>
+  Object.fromEntries(report.results.map(result => [result.ruleId, result.status]));
+
+describe('parseDressCodePolicy', () => {
+  it('fills in rule defaults', () => {
+    expect(headOffice.rules[0].severity).toBe('fail');
+  });
+
+  it('lists every problem in an invalid policy', () => {
+    expect(() => parseDressCodePolicy({ id: 'x', name: 'X', rules: [{ id: 'c', type: 'max-colors', max: 0 }] })).toThrow(
+      /Invalid dress-code policy\. rules\.0\.max/
+    );
+    expect(() => parseDressCodePolicy({ id: 'x', name: 'X', rules: [] })).toThrow(/rules/);
+  });
+});
+
+describe('evaluateDressCode', () => {
+  it('passes a navy and white outfit with a collar', () => {
+    const analysis = analyzePerson(figureImage({ top: [255, 255, 255], bottom: [20, 30, 80] }), FIGURE_DETECTION, {
+      items: [item('Shirt'), item('Collar', 'detail'), item('Shoes', 'footwear')]
+    });
+    const report = evaluateDressCode(headOffice, analysis);
+
+    expect(report.status).toBe('pass');
+    expect(statuses(report)).toEqual({ 'no-sneakers': 'pass', collar: 'pass', colors: 'pass', 'no-red': 'pass' });
+  });
+
+  it("reports each rule's own severity", () => {
+    const analysis = analyzePerson(figureImage({ top: [200, 16, 46], bottom: [20, 30, 80] }), FIGURE_DETECTION, {
+      items: [item('Top'), item('Sneakers', 'footwear')]
+    });
+    const report = evaluateDressCode(headOffice, analysis);
+
+    expect(report.status).toBe('fail');
+    expect(statuses(report)).toEqual({ 'no-sneakers': 'fail', collar: 'fail', colors: 'pass', 'no-red': 'warn' });
+  });
+
+  it('counts the clothing colors, not the skin, shoes or wall', () => {
+    const analysis = analyzePerson(figureImage({ top: [200, 16, 46], bottom: [34, 139, 34] }), FIGURE_DETECTION);
+    const [colors] = evaluateDressCode(headOffice, analysis).results.filter(result => result.ruleId === 'colors');
+
+    expect(colors.status).toBe('pass');
+    expect(colors.detail).toBe('2 colors');
+  });
+
+  it('warns when items could not be detected', () => {
+    const analysis = analyzePerson(figureImage({ top: [255, 255, 255], bottom: [20, 30, 80] }), FIGURE_DETECTION);
+
+    expect(statuses(evaluateDressCode(headOffice, analysis)).collar).toBe('warn');
+  });
+
+  it('warns on every rule with nobody in frame', () => {
+    const report = evaluateDressCode(headOffice, analyzePerson(solidImage(200, 300, [128, 128, 128]), null));
+
+    expect(report.results.every(result => result.status === 'warn')).toBe(true);
+  });
+});
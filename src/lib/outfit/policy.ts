@@ -0,0 +1,179 @@
+import { z } from 'zod';
+import { outfitColorNames } from './garments';
+import { colorFamily, isNeutralColor, type ColorFamily } from './naming';
+import { PATTERN_LABELS } from './patterns';
+import type { OutfitAnalysis, PatternKind } from './types';
+
+// Dress-code policies are plain JSON so organizations can write and share them:
+//
+// {
+//   "id": "head-office",
+//   "name": "Head Office",
+//   "rules": [
+//     { "id": "no-sneakers", "type": "forbid-items", "items": ["Sneakers"] },
+//     { "id": "collar", "type": "require-items", "items": ["Collar", "Lapel"], "label": "Collared top required" },
+//     { "id": "colors", "type": "max-colors", "max": 3 },
+//     { "id": "neutrals", "type": "neutral-palette", "maxAccent": 0.15, "severity": "warn" }
+//   ]
+// }
+//
+// Items match detected item labels (Shoes, Sneakers, Collar, Tie, ...) case-insensitively.
+
+const COLOR_FAMILIES: [ColorFamily, ...ColorFamily[]] = [
+  'Black', 'Grey', 'White', 'Beige', 'Brown', 'Red', 'Orange', 'Yellow', 'Green', 'Blue', 'Purple', 'Pink'
+];
+
+const PATTERN_KINDS = Object.keys(PATTERN_LABELS) as [PatternKind, ...PatternKind[]];
+
+const ruleBase = {
+  id: z.string().min(1),
+  label: z.string().optional(),
+  severity: z.enum(['fail', 'warn']).default('fail') // what a violation reports
+};
+
+const itemList = z.array(z.string().min(1)).min(1);
+
+export const dressCodeRuleSchema = z.discriminatedUnion('type', [
+  z.object({ ...ruleBase, type: z.literal('forbid-items'), items: itemList }),
+  z.object({ ...ruleBase, type: z.literal('require-items'), items: itemList }), // any one of them satisfies the rule
+  z.object({ ...ruleBase, type: z.literal('max-colors'), max: z.number().int().min(1) }),
+  z.object({ ...ruleBase, type: z.literal('neutral-palette'), maxAccent: z.number().min(0).max(1).default(0) }),
+  z.object({ ...ruleBase, type: z.literal('forbid-colors'), families: z.array(z.enum(COLOR_FAMILIES)).min(1) }),
+  z.object({ ...ruleBase, type: z.literal('forbid-patterns'), patterns: z.array(z.enum(PATTERN_KINDS)).min(1) }),
+  z.object({ ...ruleBase, type: z.literal('min-formality'), min: z.number().min(0).max(1) })
+]);
+
+export const dressCodePolicySchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1),
+  description: z.string().optional(),
+  rules: z.array(dressCodeRuleSchema).min(1)
+});
+
+export type DressCodeRule = z.infer<typeof dressCodeRuleSchema>;
+export type DressCodePolicy = z.infer<typeof dressCodePolicySchema>;
+
+export type ComplianceStatus = 'pass' | 'warn' | 'fail';
+
+export interface ComplianceResult {
+  ruleId: string;
+  label: string;
+  status: ComplianceStatus;
+  detail: string;
+}
+
+export interface ComplianceReport {
+  policyId: string;
+  policyName: string;
+  status: ComplianceStatus; // the worst rule status
+  results: ComplianceResult[];
+}
+
+// Non-neutral accents below this share still warn under a strict neutral rule
+const ACCENT_TOLERANCE = 0.1;
+
+// Formality within this much of the minimum warns instead of failing
+const FORMALITY_MARGIN = 0.1;
+
+const STATUS_RANK: Record<ComplianceStatus, number> = { pass: 0, warn: 1, fail: 2 };
+
+// Validate parsed JSON as a policy. Throws an Error listing every problem.
+export const parseDressCodePolicy = (json: unknown): DressCodePolicy => {
+  const parsed = dressCodePolicySchema.safeParse(json);
+  if (parsed.success) return parsed.data;
+
+  const problems = parsed.error.issues.map(issue => `${issue.path.join('.') || 'policy'}: ${issue.message}`);
+  throw new Error(`Invalid dress-code policy. ${problems.join('; ')}`);
+};
+
+const defaultLabel = (rule: DressCodeRule) => {
+  switch (rule.type) {
+    case 'forbid-items': return `No ${rule.items.join(' or ').toLowerCase()}`;
+    case 'require-items': return `${rule.items.join(' or ')} required`;
+    case 'max-colors': return `At most ${rule.max} colors`;
+    case 'neutral-palette': return 'Neutral palette only';
+    case 'forbid-colors': return `No ${rule.families.join(' or ').toLowerCase()}`;
+    case 'forbid-patterns': return `No ${rule.patterns.join(' or ')} patterns`;
+    case 'min-formality': return `At least ${Math.round(rule.min * 100)}% formal`;
+  }
+};
+
+const itemNames = (analysis: OutfitAnalysis) =>
+  [...analysis.items, ...analysis.accessories].flatMap(item => [item.label.toLowerCase(), item.rawLabel.toLowerCase()]);
+
+const check = (rule: DressCodeRule, analysis: OutfitAnalysis): { violated: boolean | null; detail: string } => {
+  const palette = analysis.palette;
+  const total = palette.reduce((sum, swatch) => sum + swatch.coverage, 0) || 1;
+
+  switch (rule.type) {
+    case 'forbid-items':
+    case 'require-items': {
+      if (analysis.items.length === 0) return { violated: null, detail: 'Clothing items could not be detected' };
+      const names = itemNames(analysis);
+      const found = rule.items.filter(item => names.includes(item.toLowerCase()));
+      return rule.type === 'forbid-items'
+        ? { violated: found.length > 0, detail: found.length > 0 ? `Detected ${found.join(', ')}` : 'None detected' }
+        : { violated: found.length === 0, detail: found.length > 0 ? `Detected ${found.join(', ')}` : 'Not detected' };
+    }
+    case 'max-colors': {
+      const count = outfitColorNames(palette, analysis.garments).length;
+      return { violated: count > rule.max, detail: `${count} color${count === 1 ? '' : 's'}` };
+    }
+    case 'neutral-palette': {
+      const accents = palette.filter(swatch => !isNeutralColor(swatch.name));
+      const share = accents.reduce((sum, swatch) => sum + swatch.coverage, 0) / total;
+      const names = [...new Set(accents.map(swatch => swatch.name))].join(', ');
+      if (share <= rule.maxAccent) return { violated: false, detail: accents.length > 0 ? `Small accent: ${names}` : 'All neutrals' };
+      return {
+        violated: share > rule.maxAccent + ACCENT_TOLERANCE ? true : null,
+        detail: `${Math.round(share * 100)}% non-neutral (${names})`
+      };
+    }
+    case 'forbid-colors': {
+      const found = [...new Set(palette.filter(swatch => rule.families.includes(colorFamily(swatch.name))).map(swatch => swatch.name))];
+      return { violated: found.length > 0, detail: found.length > 0 ? `Wearing ${found.join(', ')}` : 'None worn' };
+    }
+    case 'forbid-patterns': {
+      const found = analysis.garments.filter(garment => garment.pattern && rule.patterns.includes(garment.pattern.kind));
+      return {
+        violated: found.length > 0,
+        detail: found.length > 0
+          ? found.map(garment => `${garment.pattern.label.toLowerCase()} ${garment.label.toLowerCase()}`).join(', ')
+          : 'None worn'
+      };
+    }
+    case 'min-formality': {
+      if (!analysis.occasion) return { violated: null, detail: 'Formality could not be estimated' };
+      const { formality } = analysis.occasion;
+      const detail = `${Math.round(formality * 100)}% formal`;
+      if (formality >= rule.min) return { violated: false, detail };
+      return { violated: formality >= rule.min - FORMALITY_MARGIN ? null : true, detail };
+    }
+  }
+};
+
+// Run every rule of a policy against an analysis. A clear violation reports the
+// rule's severity; borderline results and checks that could not run warn.
+export const evaluateDressCode = (policy: DressCodePolicy, analysis: OutfitAnalysis): ComplianceReport => {
+  const results = policy.rules.map((rule): ComplianceResult => {
+    const { violated, detail } = analysis.personFound
+      ? check(rule, analysis)
+      : { violated: null, detail: 'No person in frame' };
+    return {
+      ruleId: rule.id,
+      label: rule.label ?? defaultLabel(rule),
+      status: violated === null ? 'warn' : violated ? rule.severity : 'pass',
+      detail
+    };
+  });
+
+  return {
+    policyId: policy.id,
+    policyName: policy.name,
+    status: results.reduce<ComplianceStatus>(
+      (worst, result) => (STATUS_RANK[result.status] > STATUS_RANK[worst] ? result.status : worst),
+      'pass'
+    ),
+    results
+  };
+};
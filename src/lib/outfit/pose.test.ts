@@ -0,0 +1,110 @@
+import { describe, expect, it } from 'vitest';
+import type { Rgb } from './color';
+import { fillRect, solidImage } from './fixtures';
+import { estimatePose, hemPosition, keypointName, measureProportions, splitBalance, type PoseEstimator } from './pose';
+import type { Keypoint, KeypointName } from './types';
+
+const SHOULDER_Y = 60;
+const HIP_Y = 140;
+const KNEE_Y = 200;
+const ANKLE_Y = 270;
+
+// A front-facing figure in a 200x300 frame
+const keypoints: Keypoint[] = (
+  [
+    ['left_shoulder', 120, SHOULDER_Y],
+    ['right_shoulder', 80, SHOULDER_Y],
+    ['left_hip', 115, HIP_Y],
+    ['right_hip', 85, HIP_Y],
+    ['left_knee', 112, KNEE_Y],
+    ['right_knee', 88, KNEE_Y],
+    ['left_ankle', 110, ANKLE_Y],
+    ['right_ankle', 90, ANKLE_Y]
+  ] as [KeypointName, number, number][]
+).map(([name, x, y]) => ({ name, x, y, score: 0.9 }));
+
+const TOP: Rgb = [250, 250, 250];
+const BOTTOM: Rgb = [20, 30, 80];
+const SKIN: Rgb = [224, 172, 140];
+
+// Top down to `splitY`, bottoms down to `hemY`, bare legs below
+const outfit = (splitY: number, hemY: number) => {
+  const image = solidImage(200, 300, [128, 128, 128]);
+  fillRect(image, { x: 70, y: 50, width: 60, height: splitY - 50 }, TOP);
+  fillRect(image, { x: 70, y: splitY, width: 60, height: hemY - splitY }, BOTTOM);
+  fillRect(image, { x: 70, y: hemY, width: 60, height: 290 - hemY }, SKIN);
+  return image;
+};
+
+describe('keypointName', () => {
+  it('maps model labels onto COCO names', () => {
+    expect(keypointName('L_Shoulder')).toBe('left_shoulder');
+    expect(keypointName('right-ankle')).toBe('right_ankle');
+    expect(keypointName('tail')).toBeNull();
+  });
+});
+
+describe('estimatePose', () => {
+  it('places crop keypoints back in the frame', async () => {
+    const estimator: PoseEstimator = async () => [
+      { label: 'L_Knee', x: 10, y: 20, score: 0.8 },
+      { label: 'unknown', x: 0, y: 0, score: 0.9 }
+    ];
+
+    expect(await estimatePose('crop', [100, 50, 80, 200], estimator)).toEqual({
+      keypoints: [{ name: 'left_knee', x: 110, y: 70, score: 0.8 }],
+      error: null
+    });
+    expect(await estimatePose('crop', [0, 0, 1, 1], null)).toEqual({ keypoints: [], error: null });
+  });
+
+  it('reports a failing model instead of throwing', async () => {
+    const estimator: PoseEstimator = async () => {
+      throw new Error('out of memory');
+    };
+
+    expect(await estimatePose('crop', [0, 0, 1, 1], estimator)).toEqual({ keypoints: [], error: 'out of memory' });
+  });
+});
+
+describe('proportions', () => {
+  it('grades the top/bottom split', () => {
+    expect(splitBalance(0.5)).toBe('halved');
+    expect(splitBalance(0.36)).toBe('thirds');
+    expect(splitBalance(0.8)).toBe('uneven');
+  });
+
+  it('grades the hem against the knee', () => {
+    expect(hemPosition(-0.3)).toBe('above-knee');
+    expect(hemPosition(0)).toBe('knee');
+    expect(hemPosition(0.4)).toBe('mid-calf');
+    expect(hemPosition(1)).toBe('ankle');
+  });
+
+  it('finds a split at the halfway point', () => {
+    const split = SHOULDER_Y + (ANKLE_Y - SHOULDER_Y) / 2;
+    const proportions = measureProportions(outfit(split, ANKLE_Y + 10), keypoints);
+
+    expect(proportions.balance).toBe('halved');
+    expect(proportions.hem).toBe('ankle');
+  });
+
+  it('finds a split at a third', () => {
+    const proportions = measureProportions(outfit(SHOULDER_Y + 75, ANKLE_Y + 10), keypoints);
+
+    expect(proportions.balance).toBe('thirds');
+  });
+
+  it('finds a mid-calf hem', () => {
+    const proportions = measureProportions(outfit(SHOULDER_Y + 75, KNEE_Y + 28), keypoints);
+
+    expect(proportions.hem).toBe('mid-calf');
+    expect(proportions.hemY).toBeCloseTo(KNEE_Y + 28, -1);
+  });
+
+  it('needs shoulders and hips', () => {
+    const legsOnly = keypoints.filter(keypoint => !keypoint.name.endsWith('shoulder'));
+
+    expect(measureProportions(outfit(165, 280), legsOnly)).toBeNull();
+  });
+});
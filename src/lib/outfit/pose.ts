@@ -0,0 +1,275 @@
+import { errorMessage } from './classifier';
+import { oklabDistance, rgbToOklab, type Oklab } from './color';
+import type {
+  BBox,
+  BodyProportions,
+  HemPosition,
+  Keypoint,
+  KeypointName,
+  PixelBuffer,
+  SplitBalance
+} from './types';
+
+// COCO keypoint order; pose models that only return indices map through this list
+export const POSE_KEYPOINTS: KeypointName[] = [
+  'nose',
+  'left_eye',
+  'right_eye',
+  'left_ear',
+  'right_ear',
+  'left_shoulder',
+  'right_shoulder',
+  'left_elbow',
+  'right_elbow',
+  'left_wrist',
+  'right_wrist',
+  'left_hip',
+  'right_hip',
+  'left_knee',
+  'right_knee',
+  'left_ankle',
+  'right_ankle'
+];
+
+// Limb connections for drawing the skeleton
+export const SKELETON_EDGES: [KeypointName, KeypointName][] = [
+  ['left_shoulder', 'right_shoulder'],
+  ['left_shoulder', 'left_elbow'],
+  ['left_elbow', 'left_wrist'],
+  ['right_shoulder', 'right_elbow'],
+  ['right_elbow', 'right_wrist'],
+  ['left_shoulder', 'left_hip'],
+  ['right_shoulder', 'right_hip'],
+  ['left_hip', 'right_hip'],
+  ['left_hip', 'left_knee'],
+  ['left_knee', 'left_ankle'],
+  ['right_hip', 'right_knee'],
+  ['right_knee', 'right_ankle']
+];
+
+// Keypoints scored below this are treated as not visible
+export const MIN_KEYPOINT_SCORE = 0.3;
+
+// Natural waist, as a share of the way from shoulders down to hips
+const WAIST_FRACTION = 0.6;
+
+// Oklab distance between the rows above and below a line for it to count as a hem
+const MIN_BREAK = 0.12;
+
+const THIRDS_TOLERANCE = 0.1;
+const HALF_TOLERANCE = 0.06;
+
+export interface RawKeypoint {
+  label: string; // e.g. 'L_Shoulder', 'left_shoulder'
+  x: number; // pixels of the image the model was given
+  y: number;
+  score: number;
+}
+
+// Anything that finds one person's keypoints in an image, such as a VitPose model
+export type PoseEstimator<I = string> = (image: I) => Promise<RawKeypoint[]>;
+
+export interface PoseEstimate {
+  keypoints: Keypoint[];
+  error: string | null; // why the estimator failed, when it did
+}
+
+// Map model labels like 'L_Shoulder' onto COCO keypoint names
+export const keypointName = (label: string): KeypointName | null => {
+  const name = label
+    .toLowerCase()
+    .replace(/^l_/, 'left_')
+    .replace(/^r_/, 'right_')
+    .replace(/[\s-]+/g, '_');
+  return POSE_KEYPOINTS.includes(name as KeypointName) ? (name as KeypointName) : null;
+};
+
+// Run a pose model on a person crop and place the keypoints back in the frame
+// using the crop's box. No keypoints without a model or on error.
+export const estimatePose = async <I>(
+  crop: I,
+  bbox: BBox,
+  estimator: PoseEstimator<I> | null
+): Promise<PoseEstimate> => {
+  if (!estimator) return { keypoints: [], error: null };
+
+  try {
+    const [left, top] = bbox;
+    const keypoints: Keypoint[] = [];
+    for (const raw of await estimator(crop)) {
+      const name = keypointName(raw.label);
+      if (name) keypoints.push({ name, x: raw.x + left, y: raw.y + top, score: raw.score });
+    }
+    return { keypoints, error: null };
+  } catch (error) {
+    return { keypoints: [], error: errorMessage(error) };
+  }
+};
+
+const visible = (keypoints: Keypoint[], name: KeypointName) =>
+  keypoints.find(keypoint => keypoint.name === name && keypoint.score >= MIN_KEYPOINT_SCORE) ?? null;
+
+// Midpoint of a left/right pair, or the visible side alone
+const midpoint = (keypoints: Keypoint[], side: 'shoulder' | 'hip' | 'knee' | 'ankle') => {
+  const points = [visible(keypoints, `left_${side}`), visible(keypoints, `right_${side}`)].filter(Boolean);
+  if (points.length === 0) return null;
+  return {
+    x: points.reduce((sum, point) => sum + point.x, 0) / points.length,
+    y: points.reduce((sum, point) => sum + point.y, 0) / points.length
+  };
+};
+
+// Mean color of a short horizontal run of pixels
+const rowColor = (image: PixelBuffer, cx: number, y: number, halfWidth: number): Oklab | null => {
+  const row = Math.round(y);
+  if (row < 0 || row >= image.height) return null;
+  const left = Math.max(0, Math.round(cx - halfWidth));
+  const right = Math.min(image.width - 1, Math.round(cx + halfWidth));
+  if (right < left) return null;
+
+  let r = 0, g = 0, b = 0;
+  for (let x = left; x <= right; x++) {
+    const i = (row * image.width + x) * 4;
+    r += image.data[i];
+    g += image.data[i + 1];
+    b += image.data[i + 2];
+  }
+  const count = right - left + 1;
+  return rgbToOklab(r / count, g / count, b / count);
+};
+
+const meanColor = (colors: Oklab[]): Oklab => ({
+  L: colors.reduce((sum, color) => sum + color.L, 0) / colors.length,
+  a: colors.reduce((sum, color) => sum + color.a, 0) / colors.length,
+  b: colors.reduce((sum, color) => sum + color.b, 0) / colors.length
+});
+
+// Strongest color change going down a strip of the body between two rows, or
+// with `first` the topmost one that clears MIN_BREAK. `centerAt` gives the
+// strip's x for each row so it can follow a limb.
+export const findColorBreak = (
+  image: PixelBuffer,
+  fromY: number,
+  toY: number,
+  centerAt: (y: number) => number,
+  halfWidth: number,
+  first = false
+): { y: number; strength: number } | null => {
+  const top = Math.max(0, Math.round(fromY));
+  const bottom = Math.min(image.height - 1, Math.round(toY));
+  const colors: (Oklab | null)[] = [];
+  for (let y = top; y <= bottom; y++) colors.push(rowColor(image, centerAt(y), y, halfWidth));
+
+  const window = Math.max(2, Math.round((bottom - top) * 0.04));
+  let best: { y: number; strength: number } | null = null;
+  for (let i = window; i + window <= colors.length; i++) {
+    const above = colors.slice(i - window, i).filter(Boolean);
+    const below = colors.slice(i, i + window).filter(Boolean);
+    if (above.length === 0 || below.length === 0) continue;
+
+    const strength = oklabDistance(meanColor(above), meanColor(below));
+    // Past the peak of the first break that counts
+    if (first && best?.strength >= MIN_BREAK && strength < best.strength) break;
+    if (!best || strength > best.strength) best = { y: top + i, strength };
+  }
+  return best && best.strength >= MIN_BREAK ? best : null;
+};
+
+export const splitBalance = (split: number): SplitBalance => {
+  if (Math.abs(split - 0.5) <= HALF_TOLERANCE) return 'halved';
+  if (Math.abs(split - 1 / 3) <= THIRDS_TOLERANCE || Math.abs(split - 2 / 3) <= THIRDS_TOLERANCE) return 'thirds';
+  return 'uneven';
+};
+
+export const hemPosition = (offset: number): HemPosition => {
+  if (offset < -0.1) return 'above-knee';
+  if (offset <= 0.2) return 'knee';
+  if (offset < 0.75) return 'mid-calf';
+  return 'ankle';
+};
+
+// Linear interpolation of x along a chain of points sorted by y
+const followChain = (points: { x: number; y: number }[]) => (y: number) => {
+  if (y <= points[0].y) return points[0].x;
+  for (let i = 1; i < points.length; i++) {
+    const from = points[i - 1];
+    const to = points[i];
+    if (y <= to.y) return from.x + ((to.x - from.x) * (y - from.y)) / Math.max(1, to.y - from.y);
+  }
+  return points[points.length - 1].x;
+};
+
+// The leg with the most confident keypoints, as hip, knee and ankle
+const bestLeg = (keypoints: Keypoint[]) => {
+  const legs = (['left', 'right'] as const).map(side => {
+    const joints = [
+      visible(keypoints, `${side}_hip`),
+      visible(keypoints, `${side}_knee`),
+      visible(keypoints, `${side}_ankle`)
+    ];
+    return { joints, score: joints.reduce((sum, joint) => sum + (joint?.score ?? 0), 0) };
+  });
+  const [leg] = legs.sort((a, b) => b.score - a.score);
+  return leg.joints.every(Boolean) ? leg.joints : null;
+};
+
+// Read visual proportions from pose keypoints: where the top ends relative to
+// the shoulder-to-ankle height, and where the lower garment's hem lands on the
+// leg. Needs both shoulders and hips; parts that are out of frame are null.
+export const measureProportions = (image: PixelBuffer, keypoints: Keypoint[]): BodyProportions | null => {
+  const shoulders = midpoint(keypoints, 'shoulder');
+  const hips = midpoint(keypoints, 'hip');
+  if (!shoulders || !hips || hips.y <= shoulders.y) return null;
+
+  const knees = midpoint(keypoints, 'knee');
+  const ankles = midpoint(keypoints, 'ankle');
+  const waistY = shoulders.y + (hips.y - shoulders.y) * WAIST_FRACTION;
+  const shoulderWidth = Math.abs(
+    (visible(keypoints, 'left_shoulder')?.x ?? shoulders.x) - (visible(keypoints, 'right_shoulder')?.x ?? shoulders.x)
+  ) || (hips.y - shoulders.y) * 0.6;
+
+  // The top ends somewhere between mid-chest and the knees
+  const torsoCenter = followChain([shoulders, hips, knees ?? hips]);
+  const splitBreak = findColorBreak(
+    image,
+    (shoulders.y + waistY) / 2,
+    knees?.y ?? hips.y + (hips.y - shoulders.y),
+    torsoCenter,
+    shoulderWidth * 0.15,
+    true
+  );
+  const splitY = splitBreak?.y ?? null;
+  const split = splitY !== null && ankles ? (splitY - shoulders.y) / (ankles.y - shoulders.y) : null;
+
+  // The hem is the strongest break on the leg below the top, stopping short of
+  // the shoes; no break means the lower garment runs to the ankle
+  const leg = bestLeg(keypoints);
+  let hemY: number | null = null;
+  let hemOffset: number | null = null;
+  if (leg && knees && ankles && ankles.y > knees.y) {
+    const [hip, knee, ankle] = leg;
+    const hemBreak = findColorBreak(
+      image,
+      Math.max(hip.y, (splitY ?? 0) + (ankle.y - hip.y) * 0.05),
+      knee.y + (ankle.y - knee.y) * 0.9,
+      followChain([hip, knee, ankle]),
+      shoulderWidth * 0.08
+    );
+    hemY = hemBreak?.y ?? ankle.y;
+    hemOffset = (hemY - knee.y) / Math.max(1, ankle.y - knee.y);
+  }
+
+  return {
+    shoulderY: shoulders.y,
+    waistY,
+    hipY: hips.y,
+    kneeY: knees?.y ?? null,
+    ankleY: ankles?.y ?? null,
+    splitY,
+    split,
+    balance: split !== null ? splitBalance(split) : null,
+    hemY,
+    hemOffset,
+    hem: hemOffset !== null ? hemPosition(hemOffset) : null
+  };
+};
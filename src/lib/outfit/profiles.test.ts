@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import { analyzeImageColors, analyzePerson } from './analyze';
+import { FIGURE_DETECTION, figureImage, solidImage } from './fixtures';
+import { getScoringProfile, profileSuggestionRules, type ProfileId } from './profiles';
+import { DEFAULT_SUGGESTION_RULES } from './rules';
+import type { OutfitAnalysis } from './types';
+
+const redAndGreen = (profile: ProfileId) =>
+  analyzePerson(figureImage({ top: [200, 16, 46], bottom: [34, 139, 34] }), FIGURE_DETECTION, {
+    profile: getScoringProfile(profile)
+  });
+
+const criterion = (analysis: OutfitAnalysis, id: string) => analysis.breakdown.find(item => item.id === id);
+
+const ruleIds = (profile: ProfileId) =>
+  profileSuggestionRules(getScoringProfile(profile), DEFAULT_SUGGESTION_RULES).map(rule => rule.id);
+
+describe('getScoringProfile', () => {
+  it('falls back to the classic profile for an unknown id', () => {
+    expect(getScoringProfile('disco').id).toBe('classic');
+    expect(getScoringProfile(undefined).id).toBe('classic');
+  });
+});
+
+describe('scoring profiles', () => {
+  it('records the profile on the analysis', () => {
+    expect(redAndGreen('streetwear').profile).toBe('streetwear');
+  });
+
+  it('changes the criterion weights', () => {
+    expect(criterion(redAndGreen('classic'), 'color-count')).toBeUndefined();
+    expect(criterion(redAndGreen('streetwear'), 'color-count')).toBeDefined();
+  });
+
+  it('gives a complementary scheme less harmony credit in formal', () => {
+    const classic = criterion(redAndGreen('classic'), 'harmony');
+    const formal = criterion(redAndGreen('formal'), 'harmony');
+
+    expect(formal.points / formal.maxPoints).toBeLessThan(classic.points / classic.maxPoints);
+  });
+
+  it('renames styles with its own labels', () => {
+    const black = figureImage({ top: [250, 250, 250], bottom: [15, 15, 15] });
+
+    expect(analyzePerson(black, FIGURE_DETECTION, { profile: getScoringProfile('formal') }).style).toBe('Sharp Formal');
+  });
+});
+
+describe('profileSuggestionRules', () => {
+  it('drops the rules a profile disables and adds its own', () => {
+    const formal = ruleIds('formal');
+
+    expect(formal).not.toContain('brightness-dark');
+    expect(formal).toContain('formal-needs-contrast');
+  });
+
+  it('gives no color-count advice when the profile weights color count at 0', () => {
+    expect(ruleIds('classic')).not.toContain('too-many-colors');
+    expect(ruleIds('classic')).not.toContain('single-color');
+    expect(ruleIds('streetwear')).toContain('single-color');
+  });
+
+  it('suggests a second color for a single-color look only where color count matters', () => {
+    const navy = solidImage(100, 100, [20, 30, 80]);
+    const suggestions = (profile: ProfileId) =>
+      analyzeImageColors(navy, { normalization: false, profile: getScoringProfile(profile) })
+        .suggestions.map(suggestion => suggestion.ruleId);
+
+    expect(suggestions('classic')).not.toContain('single-color');
+    expect(suggestions('streetwear')).toContain('single-color');
+  });
+});
@@ -0,0 +1,178 @@
+import { outfitColorNames } from './garments';
+import type { SuggestionRule } from './suggestions';
+import type { HarmonyScheme } from './types';
+
+export type ProfileId = 'classic' | 'formal' | 'streetwear' | 'minimalist' | 'athleisure';
+
+export interface ScoringProfile {
+  id: ProfileId;
+  label: string;
+  description: string;
+  // Maximum points per criterion; a criterion with 0 is left out of the breakdown
+  weights: {
+    brightness: number;
+    harmony: number;
+    contrast: number;
+    colorCount: number;
+    pattern: number;
+    personalColor: number; // only scored when the wearer has a personal color profile
+  };
+  brightness: {
+    ideal: [number, number]; // full points
+    acceptable: [number, number]; // half points
+  };
+  fullContrastRatio: number; // contrast ratio that earns full contrast points
+  colorCount: [number, number]; // ideal number of distinct clothing colors
+  // Share of the harmony points each scheme can earn (default 1). 'none' has no
+  // closeness, so its entry is the flat share a clashing palette still earns.
+  schemeCredit: Partial<Record<HarmonyScheme, number>>;
+  // Profile-specific names for determineStyle's labels
+  styleLabels: Record<string, string>;
+  rules: SuggestionRule[];
+  disabledRules: string[];
+}
+
+export const DEFAULT_PROFILE_ID: ProfileId = 'classic';
+
+export const SCORING_PROFILES: Record<ProfileId, ScoringProfile> = {
+  classic: {
+    id: 'classic',
+    label: 'Classic',
+    description: 'Balanced everyday scoring',
+    weights: { brightness: 2, harmony: 2, contrast: 2, colorCount: 0, pattern: 1, personalColor: 1 },
+    brightness: { ideal: [0.3, 0.7], acceptable: [0.2, 0.8] },
+    fullContrastRatio: 3,
+    colorCount: [2, 4],
+    schemeCredit: {},
+    styleLabels: {},
+    rules: [],
+    disabledRules: []
+  },
+  formal: {
+    id: 'formal',
+    label: 'Formal',
+    description: 'Tailoring, dark neutrals and crisp contrast',
+    weights: { brightness: 1.5, harmony: 1.5, contrast: 2, colorCount: 1, pattern: 1.5, personalColor: 1 },
+    brightness: { ideal: [0.15, 0.55], acceptable: [0.1, 0.7] },
+    fullContrastRatio: 5,
+    colorCount: [1, 3],
+    schemeCredit: { triadic: 0.4, 'split-complementary': 0.5, complementary: 0.6 },
+    styleLabels: {
+      Professional: 'Sharp Formal',
+      'Business Casual': 'Business Formal',
+      'Bold & Confident': 'Statement Formal',
+      Casual: 'Underdressed'
+    },
+    rules: [
+      {
+        id: 'formal-too-bright',
+        severity: 'tip',
+        priority: 65,
+        when: ({ brightness }) => brightness > 0.6
+      },
+      {
+        id: 'formal-needs-contrast',
+        severity: 'warning',
+        priority: 85,
+        when: ({ contrast }) => !!contrast && contrast.level !== 'high'
+      }
+    ],
+    disabledRules: ['brightness-dark', 'contrast-stark']
+  },
+  streetwear: {
+    id: 'streetwear',
+    label: 'Streetwear',
+    description: 'Bold color, graphic contrast, rules meant to be broken',
+    weights: { brightness: 1, harmony: 1.5, contrast: 2, colorCount: 1.5, pattern: 0.5, personalColor: 1 },
+    brightness: { ideal: [0.2, 0.8], acceptable: [0.1, 0.9] },
+    fullContrastRatio: 4,
+    colorCount: [2, 5],
+    schemeCredit: { none: 0.6, monochrome: 0.7, neutral: 0.6 },
+    styleLabels: {
+      'Bold & Confident': 'Statement Streetwear',
+      Casual: 'Street Casual',
+      'Fresh & Light': 'Clean Street',
+      'Elegant & Sophisticated': 'Dark Street'
+    },
+    rules: [
+      {
+        id: 'streetwear-add-pop',
+        severity: 'tip',
+        priority: 55,
+        when: ({ harmony }) => harmony?.scheme === 'neutral'
+      }
+    ],
+    disabledRules: ['harmony-clash', 'too-many-colors', 'contrast-stark']
+  },
+  minimalist: {
+    id: 'minimalist',
+    label: 'Minimalist',
+    description: 'Few colors, quiet neutrals, soft contrast',
+    weights: { brightness: 1.5, harmony: 2, contrast: 1, colorCount: 1.5, pattern: 1.5, personalColor: 1 },
+    brightness: { ideal: [0.25, 0.85], acceptable: [0.15, 0.9] },
+    fullContrastRatio: 1.8,
+    colorCount: [1, 2],
+    schemeCredit: { complementary: 0.3, 'split-complementary': 0.2, triadic: 0.1, analogous: 0.7 },
+    styleLabels: {
+      'Minimal & Classic': 'Pure Minimal',
+      Professional: 'Monochrome Minimal',
+      'Bold & Confident': 'Too Loud for Minimal'
+    },
+    rules: [
+      {
+        id: 'minimalist-drop-color',
+        severity: 'tip',
+        priority: 75,
+        when: ({ palette, garments }) => outfitColorNames(palette, garments).length > 2
+      }
+    ],
+    disabledRules: ['single-color', 'too-many-colors', 'contrast-flat', 'contrast-flat-garments']
+  },
+  athleisure: {
+    id: 'athleisure',
+    label: 'Athleisure',
+    description: 'Sporty, fresh and comfortable',
+    weights: { brightness: 2, harmony: 1.5, contrast: 1.5, colorCount: 1, pattern: 1, personalColor: 1 },
+    brightness: { ideal: [0.35, 0.85], acceptable: [0.2, 0.9] },
+    fullContrastRatio: 2.5,
+    colorCount: [1, 3],
+    schemeCredit: {},
+    styleLabels: {
+      'Fresh & Light': 'Fresh Athleisure',
+      Casual: 'Sporty Casual',
+      Professional: 'Sleek Athleisure',
+      'Bold & Confident': 'Energetic Sport'
+    },
+    rules: [
+      {
+        id: 'athleisure-brighten',
+        severity: 'tip',
+        priority: 60,
+        when: ({ brightness }) => brightness < 0.3
+      }
+    ],
+    disabledRules: ['brightness-dark']
+  }
+};
+
+export const getScoringProfile = (id: ProfileId | string | undefined): ScoringProfile =>
+  SCORING_PROFILES[id as ProfileId] ?? SCORING_PROFILES[DEFAULT_PROFILE_ID];
+
+// Default rules that give advice on a weighted criterion
+const CRITERION_RULES: Record<string, keyof ScoringProfile['weights']> = {
+  'single-color': 'colorCount',
+  'too-many-colors': 'colorCount',
+  'pattern-clash': 'pattern',
+  'pattern-repeat': 'pattern'
+};
+
+// The default rules minus the ones the profile disables or whose criterion it
+// weights at 0 (no advice on what does not count), plus its own
+export const profileSuggestionRules = (profile: ScoringProfile, baseRules: SuggestionRule[]) => [
+  ...baseRules.filter(rule =>
+    !profile.disabledRules.includes(rule.id)
+    && (!(rule.id in CRITERION_RULES) || profile.weights[CRITERION_RULES[rule.id]] > 0)),
+  ...profile.rules
+];
+
+export const profileStyleLabel = (profile: ScoringProfile, style: string) => profile.styleLabels[style] ?? style;
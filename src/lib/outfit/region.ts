@@ -0,0 +1,58 @@
+import type { BBox, PixelBuffer, Region } from './types';
+
+// Extra space drawn around the person box, as a fraction of its width/height
+export const DEFAULT_REGION_MARGIN = 0.05;
+
+export const fullFrameRegion = (image: PixelBuffer): Region => ({
+  x: 0,
+  y: 0,
+  width: image.width,
+  height: image.height
+});
+
+// Grow a [x, y, width, height] box by `margin` on every side and clamp it to the frame
+export const expandBox = (
+  bbox: BBox,
+  margin: number,
+  frameWidth: number,
+  frameHeight: number
+): Region => {
+  const [x, y, width, height] = bbox;
+  const padX = width * margin;
+  const padY = height * margin;
+
+  const left = Math.max(0, Math.floor(x - padX));
+  const top = Math.max(0, Math.floor(y - padY));
+  const right = Math.min(frameWidth, Math.ceil(x + width + padX));
+  const bottom = Math.min(frameHeight, Math.ceil(y + height + padY));
+
+  return {
+    x: left,
+    y: top,
+    width: Math.max(0, right - left),
+    height: Math.max(0, bottom - top)
+  };
+};
+
+// Share of the frame covered by a region, 0-1
+export const regionCoverage = (region: Region, frameWidth: number, frameHeight: number) =>
+  frameWidth > 0 && frameHeight > 0 ? (region.width * region.height) / (frameWidth * frameHeight) : 0;
+
+// Visit every `step`-th pixel of the region in row-major order, starting at `offset`
+export const forEachSample = (
+  image: PixelBuffer,
+  region: Region,
+  step: number,
+  visit: (r: number, g: number, b: number, x: number, y: number) => void,
+  offset = 0
+) => {
+  const { data, width } = image;
+  const total = region.width * region.height;
+
+  for (let n = offset; n < total; n += step) {
+    const x = region.x + (n % region.width);
+    const y = region.y + Math.floor(n / region.width);
+    const i = (y * width + x) * 4;
+    visit(data[i], data[i + 1], data[i + 2], x, y);
+  }
+};
@@ -0,0 +1,301 @@
+import { outfitColorNames } from './garments';
+import { isNeutralColor } from './naming';
+import { isPatterned, patternKinds } from './patterns';
+import { SEASONAL_PALETTES } from './seasonal';
+import { COLD_TEMPERATURE, HOT_TEMPERATURE, WINDY_KPH, describeWeather, hasOuterLayer, isWet } from './weather';
+import type { SuggestionFeatures, SuggestionRule } from './suggestions';
+import type { GarmentAnalysis } from './types';
+
+// Very high ratios (e.g. black on white) read as stark rather than crisp
+const STARK_RATIO = 12;
+
+// Looks where a tie is expected, including their formal-profile names
+const TIE_STYLES = new Set(['Professional', 'Business Casual', 'Sharp Formal', 'Business Formal']);
+
+const upperGarment = (garments: GarmentAnalysis[]) =>
+  garments.find(garment => garment.kind === 'outerwear') ?? garments.find(garment => garment.kind === 'top');
+
+const lowerGarment = (garments: GarmentAnalysis[]) => garments.find(garment => garment.kind === 'bottom');
+
+const hasGarmentPair = ({ garments }: SuggestionFeatures) =>
+  !!upperGarment(garments)?.colors[0] && !!lowerGarment(garments)?.colors[0];
+
+const patternedGarments = ({ garments }: SuggestionFeatures) => garments.filter(garment => isPatterned(garment.pattern));
+
+// Detected items that catch the wind
+const WIND_CATCHERS = new Set(['Skirt', 'Dress', 'Cape']);
+
+const carriesUmbrella = ({ items, accessories }: SuggestionFeatures) =>
+  [...items, ...accessories].some(item => item.label === 'Umbrella');
+
+// Clothing colors only: skin, background and shoes do not make an outfit busy
+const distinctColorCount = ({ palette, garments }: SuggestionFeatures) => outfitColorNames(palette, garments).length;
+
+const balancedBrightness = ({ brightness }: SuggestionFeatures) => brightness >= 0.3 && brightness <= 0.8;
+
+export const DEFAULT_SUGGESTION_RULES: SuggestionRule[] = [
+  {
+    id: 'weather-cold',
+    severity: 'warning',
+    priority: 95,
+    when: ({ weather, garments, items }) =>
+      !!weather && weather.temperatureC <= COLD_TEMPERATURE && !hasOuterLayer(garments, items),
+    params: ({ weather }) => ({ conditions: describeWeather(weather) })
+  },
+  {
+    id: 'contrast-flat-garments',
+    severity: 'warning',
+    priority: 90,
+    when: features => features.contrast?.level === 'low' && hasGarmentPair(features),
+    params: ({ garments }) => {
+      const upper = upperGarment(garments);
+      const lower = lowerGarment(garments);
+      return {
+        top: upper.colors[0].toLowerCase(),
+        bottom: lower.colors[0].toLowerCase(),
+        fix: upper.brightness >= lower.brightness
+          ? 'darker bottoms such as navy or charcoal'
+          : 'a lighter top such as white or cream'
+      };
+    }
+  },
+  {
+    id: 'occasion-underdressed',
+    severity: 'warning',
+    priority: 82,
+    when: ({ occasion }) => !!occasion && occasion.expectedFormality !== null && occasion.formalityGap < -0.25,
+    params: ({ occasion }) => ({
+      occasion: occasion.phrase,
+      fix: occasion.expectedFormality >= 0.7
+        ? 'add a blazer or switch to tailored pieces in dark neutrals'
+        : 'a smarter top or shoes would lift it'
+    })
+  },
+  {
+    id: 'occasion-avoid-color',
+    severity: 'warning',
+    priority: 68,
+    when: ({ occasion }) => !!occasion && occasion.avoidedColors.length > 0,
+    params: ({ occasion }) => ({
+      color: occasion.avoidedColors[0].toLowerCase(),
+      occasion: occasion.phrase,
+      reason: occasion.avoidReason ?? 'it works against the dress code'
+    })
+  },
+  {
+    id: 'weather-wet',
+    severity: 'tip',
+    priority: 64,
+    when: features => isWet(features.weather) && !carriesUmbrella(features),
+    params: ({ weather }) => ({
+      conditions: describeWeather(weather),
+      fix: weather.precipitation === 'snow' ? 'waterproof boots and a hat' : 'an umbrella or a water-resistant layer'
+    })
+  },
+  {
+    id: 'weather-hot',
+    severity: 'tip',
+    priority: 63,
+    when: ({ weather, garments, items, brightness }) =>
+      !!weather && weather.temperatureC >= HOT_TEMPERATURE && (hasOuterLayer(garments, items) || brightness < 0.3),
+    params: ({ weather, garments, items }) => ({
+      temp: Math.round(weather.temperatureC),
+      fix: hasOuterLayer(garments, items) ? 'drop the outer layer' : 'lighter colors will stay cooler than dark ones'
+    })
+  },
+  {
+    id: 'weather-windy',
+    severity: 'tip',
+    priority: 54,
+    when: ({ weather, items }) => !!weather && weather.windKph >= WINDY_KPH && items.some(item => WIND_CATCHERS.has(item.label)),
+    params: ({ weather, items }) => ({
+      wind: Math.round(weather.windKph),
+      item: items.find(item => WIND_CATCHERS.has(item.label)).label.toLowerCase()
+    })
+  },
+  {
+    id: 'contrast-flat',
+    severity: 'tip',
+    priority: 80,
+    when: features => features.contrast?.level === 'low' && !hasGarmentPair(features)
+  },
+  {
+    id: 'pattern-clash',
+    severity: 'warning',
+    priority: 78,
+    when: ({ garments }) => patternKinds(garments).length > 1,
+    params: ({ garments }) => {
+      const [first, second] = patternKinds(garments);
+      return { first, second };
+    }
+  },
+  {
+    id: 'harmony-clash',
+    severity: 'warning',
+    priority: 75,
+    when: ({ harmony }) => harmony?.scheme === 'none'
+  },
+  {
+    id: 'accessory-clash',
+    severity: 'warning',
+    priority: 65,
+    when: ({ accessories }) => accessories.some(accessory => accessory.clashes),
+    params: ({ accessories }) => {
+      const accessory = accessories.find(item => item.clashes);
+      return { color: accessory.color.toLowerCase(), accessory: accessory.label.toLowerCase() };
+    }
+  },
+  {
+    id: 'accessory-tie',
+    severity: 'tip',
+    priority: 40,
+    when: ({ style, accessories }) => TIE_STYLES.has(style) && !accessories.some(accessory => accessory.rawLabel === 'tie'),
+    params: ({ style }) => ({ style })
+  },
+  {
+    id: 'brightness-dark',
+    severity: 'tip',
+    priority: 70,
+    when: ({ brightness }) => brightness < 0.3
+  },
+  {
+    id: 'brightness-bright',
+    severity: 'tip',
+    priority: 70,
+    when: ({ brightness }) => brightness > 0.8
+  },
+  {
+    id: 'contrast-stark',
+    severity: 'tip',
+    priority: 60,
+    when: ({ contrast }) => !!contrast && contrast.ratio >= STARK_RATIO && !!contrast.darkest && !!contrast.lightest,
+    params: ({ contrast }) => ({
+      darkest: contrast.darkest.toLowerCase(),
+      lightest: contrast.lightest.toLowerCase()
+    })
+  },
+  {
+    id: 'pattern-repeat',
+    severity: 'tip',
+    priority: 55,
+    when: features => patternKinds(features.garments).length === 1 && patternedGarments(features).length > 1,
+    params: ({ garments }) => ({ pattern: patternKinds(garments)[0] })
+  },
+  {
+    id: 'personal-color-face',
+    severity: 'tip',
+    priority: 58,
+    when: ({ personalColor }) => personalColor?.faceColorSuits === false,
+    params: ({ personalColor }) => ({
+      color: personalColor.faceColor.toLowerCase(),
+      season: personalColor.label.toLowerCase(),
+      examples: SEASONAL_PALETTES[personalColor.season].colors
+        .slice(2, 5)
+        .map(color => color.name.toLowerCase())
+        .join(', ')
+    })
+  },
+  {
+    id: 'occasion-overdressed',
+    severity: 'tip',
+    priority: 52,
+    when: ({ occasion }) => !!occasion && occasion.expectedFormality !== null && occasion.formalityGap > 0.35,
+    params: ({ occasion }) => ({ occasion: occasion.phrase })
+  },
+  {
+    id: 'proportion-halved',
+    severity: 'tip',
+    priority: 60,
+    when: ({ proportions }) => proportions?.balance === 'halved'
+  },
+  {
+    id: 'proportion-hem-calf',
+    severity: 'tip',
+    priority: 56,
+    when: ({ proportions }) => proportions?.hem === 'mid-calf'
+  },
+  {
+    id: 'single-color',
+    severity: 'tip',
+    priority: 50,
+    when: features => distinctColorCount(features) < features.profile.colorCount[0]
+  },
+  {
+    id: 'too-many-colors',
+    severity: 'tip',
+    priority: 50,
+    when: features => distinctColorCount(features) > features.profile.colorCount[1]
+  },
+  {
+    id: 'praise-harmony',
+    severity: 'praise',
+    priority: 30,
+    when: ({ harmony }) => !!harmony && harmony.scheme !== 'none' && harmony.closeness >= 0.8,
+    params: ({ harmony }) => ({ scheme: harmony.scheme === 'neutral' ? 'neutral' : harmony.label.toLowerCase() })
+  },
+  {
+    id: 'praise-accessory',
+    severity: 'praise',
+    priority: 25,
+    when: ({ accessories }) => accessories.some(accessory => accessory.color && !accessory.clashes && !isNeutralColor(accessory.color)),
+    params: ({ accessories }) => {
+      const accessory = accessories.find(item => item.color && !item.clashes && !isNeutralColor(item.color));
+      return { color: accessory.color.toLowerCase(), accessory: accessory.label.toLowerCase() };
+    }
+  },
+  {
+    id: 'praise-pattern',
+    severity: 'praise',
+    priority: 22,
+    when: features => patternedGarments(features).length === 1 && features.garments.length > 1,
+    params: features => {
+      const [garment] = patternedGarments(features);
+      return { pattern: garment.pattern.kind, garment: garment.label.toLowerCase() };
+    }
+  },
+  {
+    id: 'praise-weather',
+    severity: 'praise',
+    priority: 26,
+    when: ({ weather, garments, items }) =>
+      !!weather && weather.temperatureC <= COLD_TEMPERATURE && hasOuterLayer(garments, items),
+    params: ({ weather }) => ({ conditions: describeWeather(weather) })
+  },
+  {
+    id: 'praise-occasion',
+    severity: 'praise',
+    priority: 27,
+    when: ({ occasion }) => !!occasion
+      && occasion.expectedFormality !== null
+      && Math.abs(occasion.formalityGap) <= 0.15
+      && occasion.avoidedColors.length === 0,
+    params: ({ occasion }) => ({ occasion: occasion.phrase })
+  },
+  {
+    id: 'praise-personal-color',
+    severity: 'praise',
+    priority: 28,
+    when: ({ personalColor }) => !!personalColor && personalColor.score >= 0.7,
+    params: ({ personalColor }) => ({ season: personalColor.label.toLowerCase() })
+  },
+  {
+    id: 'praise-proportion',
+    severity: 'praise',
+    priority: 24,
+    when: ({ proportions }) => proportions?.balance === 'thirds' && proportions.hem !== 'mid-calf'
+  },
+  {
+    id: 'praise-contrast',
+    severity: 'praise',
+    priority: 20,
+    when: features => features.contrast?.level === 'medium' && hasGarmentPair(features)
+  },
+  {
+    id: 'praise-balanced',
+    severity: 'praise',
+    priority: 10,
+    when: features => balancedBrightness(features)
+      && features.contrast?.level !== 'low'
+      && features.harmony?.scheme !== 'none'
+  }
+];
@@ -0,0 +1,76 @@
+import { getBrightness, type ColorCounts } from './color';
+import { nameColor } from './naming';
+import { forEachSample } from './region';
+import type { PixelBuffer, Region } from './types';
+
+// Sample every 50th pixel for performance
+export const SAMPLE_STEP = 50;
+
+// How much a frame pixel counts (0 skips it)
+export type PixelWeight = (x: number, y: number) => number;
+
+// Sampled pixels that fell into the same 5-bit-per-channel cell
+export interface ColorBin {
+  r: number;
+  g: number;
+  b: number;
+  weight: number;
+}
+
+export interface ColorSamples {
+  colorCounts: ColorCounts;
+  bins: ColorBin[];
+  avgBrightness: number;
+  totalWeight: number;
+}
+
+export const sampleColors = (
+  imageData: PixelBuffer,
+  area: Region,
+  weightOf: PixelWeight,
+  offset = 0
+): ColorSamples => {
+  const colorCounts: ColorCounts = {};
+  const bins = new Map<number, ColorBin>();
+  let totalBrightness = 0;
+  let totalWeight = 0;
+
+  forEachSample(imageData, area, SAMPLE_STEP, (r, g, b, x, y) => {
+    const weight = weightOf(x, y);
+    if (weight <= 0) return;
+
+    const brightness = getBrightness(r, g, b);
+    totalBrightness += brightness * weight;
+    totalWeight += weight;
+
+    // Name the pixel from the curated fashion palette
+    const { name } = nameColor(r, g, b);
+    colorCounts[name] = (colorCounts[name] || 0) + weight;
+
+    // Keep a running mean per color cell for palette extraction
+    const key = ((r >> 3) << 10) | ((g >> 3) << 5) | (b >> 3);
+    const bin = bins.get(key);
+    if (bin) {
+      const total = bin.weight + weight;
+      bin.r += ((r - bin.r) * weight) / total;
+      bin.g += ((g - bin.g) * weight) / total;
+      bin.b += ((b - bin.b) * weight) / total;
+      bin.weight = total;
+    } else {
+      bins.set(key, { r, g, b, weight });
+    }
+  }, offset);
+
+  return {
+    colorCounts,
+    bins: Array.from(bins.values()),
+    avgBrightness: totalWeight > 0 ? totalBrightness / totalWeight : 0,
+    totalWeight
+  };
+};
+
+// Most frequent color names, largest first
+export const topColors = (colorCounts: ColorCounts, count = 3) =>
+  Object.keys(colorCounts)
+    .sort((a, b) => colorCounts[b] - colorCounts[a])
+    .slice(0, count);
@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { analyzePerson } from './analyze';
+import { FIGURE_DETECTION, figureImage } from './fixtures';
+import { evaluateOccasion, getOccasion } from './occasions';
+import { scoreOutfit, type ScoreInputs } from './scoring';
+
+const analysis = analyzePerson(figureImage({ top: [255, 255, 255], bottom: [20, 30, 80] }), FIGURE_DETECTION);
+
+const inputs: ScoreInputs = {
+  brightness: 0.5,
+  harmony: analysis.harmony,
+  contrast: analysis.contrast,
+  colorCount: 2
+};
+
+const criteria = (inputs: ScoreInputs) => scoreOutfit(inputs).breakdown.map(criterion => criterion.id);
+
+describe('scoreOutfit', () => {
+  it('scores the occasion fit against a formal occasion', () => {
+    const occasion = getOccasion('job-interview');
+    const occasionFit = evaluateOccasion(occasion, 'Business Casual', analysis.palette);
+
+    expect(criteria({ ...inputs, occasion, occasionFit })).toContain('occasion');
+  });
+
+  it('leaves the occasion out when there is a fit but no occasion', () => {
+    const occasionFit = evaluateOccasion(getOccasion('job-interview'), 'Business Casual', analysis.palette);
+
+    expect(criteria({ ...inputs, occasion: null, occasionFit })).not.toContain('occasion');
+    expect(criteria({ ...inputs, occasion: undefined, occasionFit })).not.toContain('occasion');
+  });
+
+  it('leaves the occasion out when it expects no particular formality', () => {
+    const occasion = getOccasion('everyday');
+    const occasionFit = evaluateOccasion(occasion, 'Business Casual', analysis.palette);
+
+    expect(criteria({ ...inputs, occasion, occasionFit })).not.toContain('occasion');
+  });
+});
@@ -0,0 +1,241 @@
+import { contrastPoints } from './contrast';
+import { harmonyPoints } from './harmony';
+import { DEFAULT_PROFILE_ID, getScoringProfile, type ScoringProfile } from './profiles';
+import { occasionPoints, type Occasion } from './occasions';
+import { PATTERN_LABELS, isPatterned } from './patterns';
+import type {
+  ContrastResult,
+  HarmonyResult,
+  OccasionFit,
+  PatternAnalysis,
+  PersonalColorFit,
+  ScoreCriterion
+} from './types';
+
+export const BASE_POINTS = 5;
+
+const MAX_SCORE = 10;
+
+export interface ScoreInputs {
+  brightness: number;
+  harmony: HarmonyResult;
+  contrast: ContrastResult;
+  colorCount: number; // distinct palette colors
+  patterns?: PatternAnalysis[]; // one per analyzed garment
+  personalColor?: PersonalColorFit | null;
+  occasion?: Occasion | null;
+  occasionFit?: OccasionFit | null;
+  profile?: ScoringProfile;
+}
+
+export interface ScoreResult {
+  score: number;
+  breakdown: ScoreCriterion[];
+}
+
+const round = (value: number) => Math.round(value * 10) / 10;
+
+const within = (value: number, [min, max]: [number, number]) => value >= min && value <= max;
+
+const percentRange = ([min, max]: [number, number]) => `${Math.round(min * 100)}-${Math.round(max * 100)}%`;
+
+const scoreBrightness = (brightness: number, profile: ScoringProfile): ScoreCriterion => {
+  const maxPoints = profile.weights.brightness;
+  const { ideal, acceptable } = profile.brightness;
+  let points = 0;
+  let reason = brightness < ideal[0]
+    ? 'Overall tone is very dark, details get lost'
+    : 'Overall tone is very bright and washes out';
+
+  if (within(brightness, ideal)) {
+    points = maxPoints;
+    reason = `Overall tone sits in the ideal ${percentRange(ideal)} range`;
+  } else if (within(brightness, acceptable)) {
+    points = maxPoints / 2;
+    reason = brightness < ideal[0] ? 'Slightly dark overall' : 'Slightly bright overall';
+  }
+
+  return {
+    id: 'brightness',
+    label: 'Brightness',
+    measurement: brightness,
+    measurementLabel: `${Math.round(brightness * 100)}%`,
+    points: round(points),
+    maxPoints,
+    reason
+  };
+};
+
+const scoreHarmony = (harmony: HarmonyResult, profile: ScoringProfile): ScoreCriterion => {
+  const credit = profile.schemeCredit[harmony.scheme] ?? (harmony.scheme === 'none' ? 0 : 1);
+  const points = harmony.scheme === 'none'
+    ? profile.weights.harmony * credit
+    : harmonyPoints(harmony, profile.weights.harmony) * credit;
+
+  return {
+    id: 'harmony',
+    label: 'Color harmony',
+    measurement: harmony.closeness,
+    measurementLabel: `${harmony.label}, ${Math.round(harmony.closeness * 100)}% match`,
+    points: round(points),
+    maxPoints: profile.weights.harmony,
+    reason: harmony.scheme === 'none'
+      ? credit > 0
+        ? `No classic scheme, which ${profile.label.toLowerCase()} partly allows`
+        : 'Palette hues do not follow a recognised color-wheel scheme'
+      : credit < 1
+        ? `A ${harmony.label.toLowerCase()} scheme counts for less in ${profile.label.toLowerCase()}`
+        : `Palette follows a ${harmony.label.toLowerCase()} scheme`
+  };
+};
+
+const scoreContrast = (contrast: ContrastResult, profile: ScoringProfile): ScoreCriterion => ({
+  id: 'contrast',
+  label: 'Contrast',
+  measurement: contrast.ratio,
+  measurementLabel: `${contrast.ratio.toFixed(1)}:1`,
+  points: round(contrastPoints(contrast, profile.weights.contrast, profile.fullContrastRatio)),
+  maxPoints: profile.weights.contrast,
+  reason: contrast.level === 'low'
+    ? 'Pieces are close in lightness, so the outfit reads flat'
+    : contrast.garmentRatio !== null
+      ? `Top and bottom separate with ${contrast.level} contrast`
+      : `Outfit tones show ${contrast.level} contrast`
+});
+
+const scoreColorCount = (colorCount: number, profile: ScoringProfile): ScoreCriterion => {
+  const [min, max] = profile.colorCount;
+  const inRange = within(colorCount, profile.colorCount);
+  const offBy = colorCount < min ? min - colorCount : colorCount - max;
+  const points = inRange ? profile.weights.colorCount : offBy === 1 ? profile.weights.colorCount / 2 : 0;
+
+  return {
+    id: 'color-count',
+    label: 'Color count',
+    measurement: colorCount,
+    measurementLabel: `${colorCount} color${colorCount === 1 ? '' : 's'}`,
+    points: round(points),
+    maxPoints: profile.weights.colorCount,
+    reason: inRange
+      ? `${min}-${max} colors suits a ${profile.label.toLowerCase()} look`
+      : colorCount > max
+        ? `More colors than a ${profile.label.toLowerCase()} look usually carries`
+        : `Fewer colors than a ${profile.label.toLowerCase()} look usually carries`
+  };
+};
+
+const scorePatterns = (patterns: PatternAnalysis[], profile: ScoringProfile): ScoreCriterion => {
+  const patterned = patterns.filter(isPatterned);
+  const kinds = [...new Set(patterned.map(pattern => pattern.kind))];
+  const maxPoints = profile.weights.pattern;
+  const names = kinds.map(kind => PATTERN_LABELS[kind].toLowerCase());
+
+  let points = maxPoints;
+  let reason = 'Solid pieces keep the look clean';
+  if (kinds.length > 1) {
+    points = 0;
+    reason = `Competing ${names.join(' and ')} patterns`;
+  } else if (patterned.length > 1) {
+    points = maxPoints / 2;
+    reason = `The ${names[0]} pattern repeats across pieces`;
+  } else if (patterned.length === 1) {
+    reason = `One ${names[0]} piece anchored by solids`;
+  }
+
+  return {
+    id: 'pattern',
+    label: 'Pattern mix',
+    measurement: kinds.length,
+    measurementLabel: patterned.length > 0 ? names.join(', ') : 'all solid',
+    points: round(points),
+    maxPoints,
+    reason
+  };
+};
+
+const scorePersonalColor = (fit: PersonalColorFit, profile: ScoringProfile): ScoreCriterion => ({
+  id: 'personal-color',
+  label: 'Suits your coloring',
+  measurement: fit.score,
+  measurementLabel: `${Math.round(fit.score * 100)}% ${fit.label.toLowerCase()} palette`,
+  points: round(fit.score * profile.weights.personalColor),
+  maxPoints: profile.weights.personalColor,
+  reason: fit.score >= 0.7
+    ? `Colors sit well inside your ${fit.label.toLowerCase()} palette`
+    : fit.score >= 0.3
+      ? `Some colors are outside your ${fit.label.toLowerCase()} palette`
+      : `Most colors are outside your ${fit.label.toLowerCase()} palette`
+});
+
+const scoreOccasion = (fit: OccasionFit, occasion: Occasion): ScoreCriterion => {
+  const gap = fit.formalityGap;
+  const name = occasion.phrase;
+  return {
+    id: 'occasion',
+    label: 'Occasion fit',
+    measurement: fit.formality,
+    measurementLabel: `${Math.round(fit.formality * 100)}% formal, ${Math.round(occasion.formality * 100)}% expected`,
+    points: round(occasionPoints(fit, occasion.maxPoints)),
+    maxPoints: occasion.maxPoints,
+    reason: fit.avoidedColors.length > 0
+      ? `${fit.avoidedColors.join(' and ')} ${fit.avoidedColors.length === 1 ? 'is' : 'are'} best avoided for ${name}`
+      : gap < -0.15
+        ? `More casual than ${name} calls for`
+        : gap > 0.15
+          ? `Dressier than ${name} needs`
+          : `Formality suits ${name}`
+  };
+};
+
+// Score an outfit from its measurements under a scoring profile and explain
+// where every point came from. The total is the sum of the criteria, rounded
+// and clamped to 1-10; criteria the profile weights at 0 are left out.
+export const scoreOutfit = ({
+  brightness,
+  harmony,
+  contrast,
+  colorCount,
+  patterns = [],
+  personalColor = null,
+  occasion = null,
+  occasionFit = null,
+  profile = getScoringProfile(DEFAULT_PROFILE_ID)
+}: ScoreInputs): ScoreResult => {
+  const breakdown: ScoreCriterion[] = [
+    {
+      id: 'base',
+      label: 'Base',
+      measurement: BASE_POINTS,
+      measurementLabel: 'Person detected',
+      points: BASE_POINTS,
+      maxPoints: BASE_POINTS,
+      reason: 'Every detected outfit starts from a base score'
+    },
+    scoreBrightness(brightness, profile),
+    scoreHarmony(harmony, profile),
+    scoreContrast(contrast, profile),
+    scoreColorCount(colorCount, profile),
+    // Pattern mixing needs garments to compare
+    patterns.length > 0 ? scorePatterns(patterns, profile) : null,
+    personalColor ? scorePersonalColor(personalColor, profile) : null,
+    occasion && occasion.formality !== null && occasionFit ? scoreOccasion(occasionFit, occasion) : null
+  ].filter(criterion => criterion && criterion.maxPoints > 0);
+
+  // Shrink the weighted criteria proportionally when together they can earn
+  // more than the 10-point scale leaves above the base, so none is clamped away
+  const available = breakdown.reduce((sum, criterion) => sum + (criterion.id === 'base' ? 0 : criterion.maxPoints), 0);
+  const scale = available > MAX_SCORE - BASE_POINTS ? (MAX_SCORE - BASE_POINTS) / available : 1;
+  if (scale < 1) {
+    for (const criterion of breakdown) {
+      if (criterion.id === 'base') continue;
+      criterion.points = round(criterion.points * scale);
+      criterion.maxPoints = round(criterion.maxPoints * scale);
+    }
+  }
+
+  const total = breakdown.reduce((sum, criterion) => sum + criterion.points, 0);
+  return {
+    score: Math.min(Math.max(Math.round(total), 1), MAX_SCORE),
+    breakdown
+  };
+};
@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import type { Rgb } from './color';
+import { FIGURE_DETECTION, figureImage } from './fixtures';
+import { MAX_TONE_SAMPLES, addToneSample, classifySeason, evaluatePersonalColor, sampleTones, seasonalSwatches } from './seasonal';
+import type { ToneSample } from './types';
+
+const GOLDEN_SKIN: Rgb = [224, 172, 120];
+const ROSY_SKIN: Rgb = [235, 195, 195];
+
+const season = (skin: Rgb, hair: Rgb | null, eyes: Rgb | null = null) => classifySeason([{ skin, hair, eyes }]);
+
+describe('classifySeason', () => {
+  it('reads golden skin as a warm undertone', () => {
+    expect(season(GOLDEN_SKIN, [60, 40, 30]).undertone).toBe('warm');
+  });
+
+  it('reads rosy skin as a cool undertone', () => {
+    expect(season(ROSY_SKIN, [60, 40, 30]).undertone).toBe('cool');
+  });
+
+  it('splits warm coloring into spring and autumn by hair depth', () => {
+    expect(season(GOLDEN_SKIN, [210, 170, 100]).season).toBe('spring');
+    expect(season(GOLDEN_SKIN, [60, 40, 30]).season).toBe('autumn');
+  });
+
+  it('splits cool coloring into summer and winter by contrast', () => {
+    expect(season(ROSY_SKIN, [180, 170, 160]).season).toBe('summer');
+    expect(season(ROSY_SKIN, [20, 20, 20]).season).toBe('winter');
+  });
+
+  it('needs at least one capture', () => {
+    expect(classifySeason([])).toBeNull();
+  });
+
+  it('takes the median over captures so one odd frame does not flip it', () => {
+    const warm: ToneSample = { skin: GOLDEN_SKIN, hair: [60, 40, 30], eyes: null };
+    const cool: ToneSample = { skin: ROSY_SKIN, hair: [60, 40, 30], eyes: null };
+
+    expect(classifySeason([warm, cool, warm]).undertone).toBe('warm');
+  });
+});
+
+describe('addToneSample', () => {
+  it('keeps only the most recent captures', () => {
+    const samples = Array.from({ length: MAX_TONE_SAMPLES + 2 }, (_, index): ToneSample => ({
+      skin: [200 + index, 150, 120],
+      hair: null,
+      eyes: null
+    })).reduce(addToneSample, []);
+
+    expect(samples).toHaveLength(MAX_TONE_SAMPLES);
+    expect(samples[0].skin[0]).toBe(202);
+  });
+});
+
+describe('sampleTones', () => {
+  it('reads the skin from the face of the person box', () => {
+    const sample = sampleTones(figureImage({ top: [255, 255, 255], bottom: [20, 30, 80] }), FIGURE_DETECTION);
+
+    expect(sample.skin).toEqual([224, 172, 140]);
+  });
+
+  it('gives up when the face holds no skin', () => {
+    const image = figureImage({ top: [255, 255, 255], bottom: [20, 30, 80], skin: [60, 40, 30] });
+
+    expect(sampleTones(image, FIGURE_DETECTION)).toBeNull();
+  });
+});
+
+describe('evaluatePersonalColor', () => {
+  const winter = season(ROSY_SKIN, [20, 20, 20]);
+
+  it("scores an outfit in the wearer's own palette as suiting them", () => {
+    expect(evaluatePersonalColor(seasonalSwatches('winter'), [], winter).score).toBeCloseTo(1);
+  });
+
+  it("scores another season's palette lower", () => {
+    expect(evaluatePersonalColor(seasonalSwatches('autumn'), [], winter).score).toBeLessThan(0.5);
+  });
+});
@@ -0,0 +1,252 @@
+import { hexToRgb, oklabDistance, oklabToOklch, rgbToHex, rgbToOklab, type Rgb } from './color';
+import { forEachSample } from './region';
+import type {
+  GarmentAnalysis,
+  PaletteSwatch,
+  PersonDetection,
+  PersonalColorFit,
+  PersonalColorProfile,
+  PixelBuffer,
+  Region,
+  Season,
+  ToneSample,
+  Undertone
+} from './types';
+
+export interface SeasonalPalette {
+  label: string;
+  description: string;
+  colors: { name: string; hex: string }[];
+}
+
+// Colors each season wears well, neutrals included
+export const SEASONAL_PALETTES: Record<Season, SeasonalPalette> = {
+  spring: {
+    label: 'Spring',
+    description: 'Warm and light: clear, golden colors',
+    colors: [
+      { name: 'Ivory', hex: '#FFF8E1' },
+      { name: 'Camel', hex: '#C19A6B' },
+      { name: 'Peach', hex: '#FFCBA4' },
+      { name: 'Coral', hex: '#FF7F50' },
+      { name: 'Golden Yellow', hex: '#FFC72C' },
+      { name: 'Warm Turquoise', hex: '#30C5B5' },
+      { name: 'Grass Green', hex: '#5DBB63' },
+      { name: 'Poppy Red', hex: '#E35335' },
+      { name: 'Light Navy', hex: '#3B5998' }
+    ]
+  },
+  summer: {
+    label: 'Summer',
+    description: 'Cool and soft: muted, powdery colors',
+    colors: [
+      { name: 'Soft White', hex: '#F4F1EC' },
+      { name: 'Soft Grey', hex: '#A9A9B0' },
+      { name: 'Powder Blue', hex: '#B0C4DE' },
+      { name: 'Lavender', hex: '#B4A7D6' },
+      { name: 'Dusty Rose', hex: '#D8A1A4' },
+      { name: 'Mauve', hex: '#A0738C' },
+      { name: 'Seafoam', hex: '#9FD8CB' },
+      { name: 'Raspberry', hex: '#B3446C' },
+      { name: 'Slate Blue', hex: '#6A7BA2' },
+      { name: 'Soft Navy', hex: '#3C4A6B' }
+    ]
+  },
+  autumn: {
+    label: 'Autumn',
+    description: 'Warm and deep: rich, earthy colors',
+    colors: [
+      { name: 'Cream', hex: '#F2E6CE' },
+      { name: 'Camel', hex: '#C19A6B' },
+      { name: 'Mustard', hex: '#D4A017' },
+      { name: 'Burnt Orange', hex: '#CC5500' },
+      { name: 'Rust', hex: '#B7410E' },
+      { name: 'Olive', hex: '#6B7330' },
+      { name: 'Forest Green', hex: '#228B22' },
+      { name: 'Teal', hex: '#1F6F6F' },
+      { name: 'Chocolate', hex: '#4E3020' }
+    ]
+  },
+  winter: {
+    label: 'Winter',
+    description: 'Cool and high-contrast: clear, saturated colors',
+    colors: [
+      { name: 'Pure White', hex: '#FFFFFF' },
+      { name: 'Icy Grey', hex: '#D9DEE4' },
+      { name: 'Charcoal', hex: '#36393D' },
+      { name: 'Black', hex: '#111111' },
+      { name: 'Navy', hex: '#1F2A44' },
+      { name: 'Royal Blue', hex: '#4169E1' },
+      { name: 'Emerald', hex: '#009B77' },
+      { name: 'Fuchsia', hex: '#D9338A' },
+      { name: 'True Red', hex: '#C8102E' }
+    ]
+  }
+};
+
+// Captures kept for classification; older ones are dropped as new ones arrive
+export const MAX_TONE_SAMPLES = 5;
+
+// Captures needed before the classification is treated as settled
+export const SETTLED_TONE_SAMPLES = 3;
+
+// Skin OKLCH hue (degrees) at or above which the undertone reads warm, and at or below which it reads cool
+const WARM_HUE = 64;
+const COOL_HUE = 54;
+
+// Hair lighter than this (OKLab L) counts as light coloring
+const LIGHT_HAIR = 0.45;
+
+// Skin-to-hair/eye lightness gap that reads as high contrast
+const HIGH_CONTRAST = 0.35;
+
+// OKLab distance within which an outfit color counts as part of a seasonal palette
+const SUIT_DISTANCE = 0.1;
+
+// Face and hair boxes as fractions of the person box height, centred horizontally
+const FACE = { from: 0.03, to: 0.12, width: 0.07 };
+const HAIR = { from: 0, to: 0.03, width: 0.09 };
+
+// Classic RGB skin test (Kovac et al.), good enough to drop background and hair
+const isSkin = ([r, g, b]: Rgb) =>
+  r > 95 && g > 40 && b > 20 && r > g && r > b && r - Math.min(g, b) > 15 && Math.abs(r - g) > 15;
+
+const headBox = (detection: PersonDetection, { from, to, width }: typeof FACE, image: PixelBuffer): Region => {
+  const [x, y, boxWidth, height] = detection.bbox;
+  const centre = x + boxWidth / 2;
+  const half = (height * width) / 2;
+  const left = Math.max(0, Math.round(centre - half));
+  const top = Math.max(0, Math.round(y + height * from));
+  return {
+    x: left,
+    y: top,
+    width: Math.max(0, Math.min(image.width, Math.round(centre + half)) - left),
+    height: Math.max(0, Math.min(image.height, Math.round(y + height * to)) - top)
+  };
+};
+
+const collect = (image: PixelBuffer, region: Region, keep: (rgb: Rgb) => boolean) => {
+  const pixels: Rgb[] = [];
+  // Dense sampling: these boxes are small
+  forEachSample(image, region, 3, (r, g, b) => {
+    if (keep([r, g, b])) pixels.push([r, g, b]);
+  });
+  return pixels;
+};
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+};
+
+const medianColor = (pixels: Rgb[]): Rgb | null =>
+  pixels.length > 0 ? [0, 1, 2].map(channel => median(pixels.map(pixel => pixel[channel]))) as Rgb : null;
+
+// Darkest tenth of the non-skin face pixels: the iris and pupil in a frontal shot
+const eyeColor = (pixels: Rgb[]): Rgb | null => {
+  const dark = [...pixels]
+    .sort((a, b) => rgbToOklab(...a).L - rgbToOklab(...b).L)
+    .slice(0, Math.max(1, Math.round(pixels.length / 10)));
+  return pixels.length > 0 ? medianColor(dark) : null;
+};
+
+// Sample skin, hair and eye tones from the head of a person detection. Returns
+// null when the face box holds too little skin (turned away, out of frame).
+export const sampleTones = (image: PixelBuffer, detection: PersonDetection): ToneSample | null => {
+  const face = headBox(detection, FACE, image);
+  const skin = collect(image, face, isSkin);
+  if (skin.length < 10) return null;
+
+  const eyeBand = { ...face, y: face.y + Math.round(face.height * 0.35), height: Math.round(face.height * 0.15) };
+  return {
+    skin: medianColor(skin),
+    hair: medianColor(collect(image, headBox(detection, HAIR, image), rgb => !isSkin(rgb))),
+    eyes: eyeColor(collect(image, eyeBand, rgb => !isSkin(rgb)))
+  };
+};
+
+const averageTone = (tones: (Rgb | null)[]): Rgb | null => medianColor(tones.filter(Boolean));
+
+const undertoneOf = (skin: Rgb): Undertone => {
+  const { h } = oklabToOklch(rgbToOklab(...skin));
+  return h >= WARM_HUE ? 'warm' : h <= COOL_HUE ? 'cool' : 'neutral';
+};
+
+// Classify undertone and seasonal palette from one or more captures. Warm
+// coloring splits into light spring and deep autumn; cool coloring into soft
+// summer and high-contrast winter. Neutral undertones lean on contrast and depth.
+export const classifySeason = (samples: ToneSample[]): PersonalColorProfile | null => {
+  if (samples.length === 0) return null;
+
+  const skin = averageTone(samples.map(sample => sample.skin));
+  const hair = averageTone(samples.map(sample => sample.hair));
+  const eyes = averageTone(samples.map(sample => sample.eyes));
+  const skinL = rgbToOklab(...skin).L;
+  const hairL = hair ? rgbToOklab(...hair).L : skinL;
+  const eyesL = eyes ? rgbToOklab(...eyes).L : hairL;
+
+  const undertone = undertoneOf(skin);
+  const contrast = Math.max(Math.abs(skinL - hairL), Math.abs(skinL - eyesL));
+  const light = hairL >= LIGHT_HAIR;
+  const highContrast = contrast >= HIGH_CONTRAST;
+
+  let season: Season;
+  if (undertone === 'warm') season = light ? 'spring' : 'autumn';
+  else if (undertone === 'cool') season = highContrast ? 'winter' : 'summer';
+  else season = highContrast ? 'winter' : light ? 'summer' : 'autumn';
+
+  return {
+    season,
+    undertone,
+    contrast: Math.round(contrast * 100) / 100,
+    skin: rgbToHex(...skin),
+    hair: hair ? rgbToHex(...hair) : null,
+    eyes: eyes ? rgbToHex(...eyes) : null,
+    samples: samples.length
+  };
+};
+
+// Add a capture to the stored samples, keeping only the most recent ones
+export const addToneSample = (samples: ToneSample[], sample: ToneSample) =>
+  [...samples, sample].slice(-MAX_TONE_SAMPLES);
+
+const nearestSeasonColor = (rgb: Rgb, season: Season) => {
+  const lab = rgbToOklab(...rgb);
+  return SEASONAL_PALETTES[season].colors
+    .map(color => ({ name: color.name, distance: oklabDistance(lab, rgbToOklab(...hexToRgb(color.hex))) }))
+    .reduce((best, color) => (color.distance < best.distance ? color : best));
+};
+
+// How well the outfit's colors sit inside the wearer's seasonal palette. The
+// score is the palette coverage that suits; the top (nearest the face) is
+// reported separately because it matters most.
+export const evaluatePersonalColor = (
+  palette: PaletteSwatch[],
+  garments: GarmentAnalysis[],
+  profile: PersonalColorProfile
+): PersonalColorFit => {
+  const suits = (swatch: PaletteSwatch) => nearestSeasonColor(swatch.rgb, profile.season).distance < SUIT_DISTANCE;
+
+  const total = palette.reduce((sum, swatch) => sum + swatch.coverage, 0) || 1;
+  const suited = palette.filter(suits);
+  const score = suited.reduce((sum, swatch) => sum + swatch.coverage, 0) / total;
+
+  const faceGarment = garments.find(garment => garment.kind === 'top') ?? garments.find(garment => garment.kind === 'outerwear');
+  const faceSwatch = faceGarment?.palette[0] ?? null;
+
+  return {
+    season: profile.season,
+    label: SEASONAL_PALETTES[profile.season].label,
+    score,
+    flattering: [...new Set(suited.map(swatch => swatch.name))],
+    unflattering: [...new Set(palette.filter(swatch => !suits(swatch)).map(swatch => swatch.name))],
+    faceColor: faceSwatch?.name ?? null,
+    faceColorSuits: faceSwatch ? suits(faceSwatch) : null
+  };
+};
+
+// The seasonal palette as swatches, for display next to the outfit palette
+export const seasonalSwatches = (season: Season): PaletteSwatch[] => {
+  const { colors } = SEASONAL_PALETTES[season];
+  return colors.map(color => ({ rgb: hexToRgb(color.hex), hex: color.hex, name: color.name, coverage: 1 / colors.length }));
+};
@@ -0,0 +1,20 @@
+import { colorFamily, isNeutralColor } from './naming';
+
+const DARK_NEUTRALS = new Set(['Black', 'Charcoal']);
+const LIGHT_NEUTRALS = new Set(['White', 'Ivory', 'Cream']);
+
+export const determineStyle = (colors: string[], brightness: number) => {
+  const families = new Set(colors.map(colorFamily));
+  const hasDark = colors.some(color => DARK_NEUTRALS.has(color));
+  const hasLight = colors.some(color => LIGHT_NEUTRALS.has(color));
+  const hasBlue = families.has('Blue');
+
+  if (hasDark && hasLight) return 'Professional';
+  if (hasBlue && (hasLight || hasDark)) return 'Business Casual';
+  if (brightness > 0.7) return 'Fresh & Light';
+  if (families.has('Red') || families.has('Orange')) return 'Bold & Confident';
+  if (families.has('Green') || families.has('Brown')) return 'Natural & Relaxed';
+  if (brightness < 0.3) return 'Elegant & Sophisticated';
+  if (colors.length > 0 && colors.every(isNeutralColor)) return 'Minimal & Classic';
+  return 'Casual';
+};
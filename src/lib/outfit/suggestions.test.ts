@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import { analyzePerson } from './analyze';
+import { FIGURE_DETECTION, figureImage } from './fixtures';
+import { getScoringProfile } from './profiles';
+import { DEFAULT_SUGGESTION_RULES } from './rules';
+import { runSuggestionRules, type SuggestionFeatures, type SuggestionRule } from './suggestions';
+
+interface Features {
+  level: number;
+}
+
+const rule = (id: string, severity: SuggestionRule['severity'], priority: number, min = 0): SuggestionRule<Features> => ({
+  id,
+  severity,
+  priority,
+  when: ({ level }) => level >= min
+});
+
+const ids = (rules: SuggestionRule<Features>[], level = 1, limit?: number) =>
+  runSuggestionRules({ level }, rules, { limit }).map(suggestion => suggestion.ruleId);
+
+describe('runSuggestionRules', () => {
+  it('returns only the rules whose condition holds', () => {
+    expect(ids([rule('low', 'tip', 10, 0), rule('high', 'tip', 10, 5)])).toEqual(['low']);
+  });
+
+  it('ranks warnings, then tips, then praise, whatever the priority', () => {
+    const rules = [rule('nice', 'praise', 99), rule('try', 'tip', 50), rule('fix', 'warning', 1)];
+
+    expect(ids(rules)).toEqual(['fix', 'try', 'nice']);
+  });
+
+  it('ranks by priority within a severity and breaks ties on the rule id', () => {
+    const rules = [rule('b-tip', 'tip', 40), rule('a-tip', 'tip', 40), rule('urgent', 'tip', 90)];
+
+    expect(ids(rules)).toEqual(['urgent', 'a-tip', 'b-tip']);
+    expect(ids([...rules].reverse())).toEqual(['urgent', 'a-tip', 'b-tip']);
+  });
+
+  it('lets a later rule with the same id replace an earlier one', () => {
+    const suggestions = runSuggestionRules({ level: 1 }, [rule('fit', 'tip', 40), rule('fit', 'warning', 80)]);
+
+    expect(suggestions).toEqual([{ ruleId: 'fit', severity: 'warning', priority: 80, text: 'fit' }]);
+  });
+
+  it('caps the list at the limit after ranking', () => {
+    expect(ids([rule('c', 'praise', 10), rule('b', 'tip', 10), rule('a', 'warning', 10)], 1, 2)).toEqual(['a', 'b']);
+  });
+
+  it('fills the message from the rule params', () => {
+    const [suggestion] = runSuggestionRules({ level: 1 }, [{
+      ...rule('accessory-tie', 'tip', 40),
+      params: () => ({ style: 'Professional' })
+    }]);
+
+    expect(suggestion.text).toBe('A tie would suit this Professional look');
+  });
+});
+
+describe('DEFAULT_SUGGESTION_RULES', () => {
+  const analysis = analyzePerson(figureImage({ top: [255, 255, 255], bottom: [20, 30, 80] }), FIGURE_DETECTION);
+  const features: SuggestionFeatures = {
+    ...analysis,
+    brightness: 0.5,
+    occasion: null,
+    profile: getScoringProfile('classic')
+  };
+
+  it('gives the same advice every run', () => {
+    const first = runSuggestionRules(features, DEFAULT_SUGGESTION_RULES);
+
+    expect(runSuggestionRules(features, DEFAULT_SUGGESTION_RULES)).toEqual(first);
+  });
+
+  it('runs a custom rule alongside the defaults', () => {
+    const custom: SuggestionRule = { id: 'wear-a-hat', severity: 'tip', priority: 100, when: () => true };
+    const ruleIds = runSuggestionRules(features, [...DEFAULT_SUGGESTION_RULES, custom]).map(suggestion => suggestion.ruleId);
+
+    expect(ruleIds[0]).toBe('wear-a-hat');
+    expect(ruleIds).toContain('praise-balanced');
+  });
+
+  it('skips the occasion rules when no occasion was evaluated', () => {
+    const ruleIds = runSuggestionRules(features, DEFAULT_SUGGESTION_RULES).map(suggestion => suggestion.ruleId);
+
+    expect(ruleIds.filter(id => id.includes('occasion'))).toEqual([]);
+  });
+});
@@ -0,0 +1,90 @@
+import { DEFAULT_LOCALE, translate, type Locale, type MessageParams } from './messages';
+import type { ScoringProfile } from './profiles';
+import type {
+  AccessoryAnalysis,
+  BodyProportions,
+  ContrastResult,
+  GarmentAnalysis,
+  HarmonyResult,
+  OccasionFit,
+  PaletteSwatch,
+  PersonalColorFit,
+  ClothingItem,
+  Suggestion,
+  SuggestionSeverity,
+  WeatherConditions
+} from './types';
+
+// Everything a suggestion rule may look at
+export interface SuggestionFeatures {
+  colors: string[];
+  palette: PaletteSwatch[];
+  brightness: number;
+  harmony: HarmonyResult | null;
+  contrast: ContrastResult | null;
+  garments: GarmentAnalysis[];
+  items: ClothingItem[];
+  accessories: AccessoryAnalysis[];
+  style: string;
+  personalColor: PersonalColorFit | null;
+  occasion: OccasionFit | null;
+  weather: WeatherConditions | null;
+  proportions: BodyProportions | null;
+  profile: ScoringProfile;
+}
+
+export interface SuggestionRule<F = SuggestionFeatures> {
+  id: string; // also the message id in SUGGESTION_MESSAGES
+  severity: SuggestionSeverity;
+  priority: number; // higher ranks first within a severity
+  when: (features: F) => boolean;
+  params?: (features: F) => MessageParams;
+}
+
+export interface SuggestionOptions {
+  locale?: Locale;
+  limit?: number;
+}
+
+const SEVERITY_RANK: Record<SuggestionSeverity, number> = {
+  warning: 0,
+  tip: 1,
+  praise: 2
+};
+
+export const createSuggestion = (
+  ruleId: string,
+  severity: SuggestionSeverity,
+  priority: number,
+  params?: MessageParams,
+  locale: Locale = DEFAULT_LOCALE
+): Suggestion => ({
+  ruleId,
+  severity,
+  priority,
+  text: translate(ruleId, params, locale)
+});
+
+export const compareSuggestions = (a: Suggestion, b: Suggestion) =>
+  SEVERITY_RANK[a.severity] - SEVERITY_RANK[b.severity]
+  || b.priority - a.priority
+  || a.ruleId.localeCompare(b.ruleId);
+
+// Run every rule against the features and return the ones that fired, ranked
+// warnings first, then tips, then praise; ties break on priority and rule id.
+// A rule listed again under the same id replaces the earlier one, so profiles
+// and occasions can override a default rule. Rules are pure, so the same
+// analysis always yields the same list.
+export const runSuggestionRules = <F>(
+  features: F,
+  rules: SuggestionRule<F>[],
+  { locale = DEFAULT_LOCALE, limit }: SuggestionOptions = {}
+): Suggestion[] => {
+  const unique = new Map(rules.map(rule => [rule.id, rule]));
+  const fired = [...unique.values()]
+    .filter(rule => rule.when(features))
+    .map(rule => createSuggestion(rule.id, rule.severity, rule.priority, rule.params?.(features), locale))
+    .sort(compareSuggestions);
+
+  return limit === undefined ? fired : fired.slice(0, limit);
+};
@@ -0,0 +1,319 @@
+import type { Rgb } from './color';
+import type { ProfileId } from './profiles';
+
+// Minimal shape of a canvas ImageData, so the analyzer can run on any RGBA buffer
+export interface PixelBuffer {
+  data: Uint8ClampedArray | number[];
+  width: number;
+  height: number;
+}
+
+export type WhiteBalanceMethod = 'gray-world' | 'white-patch' | 'none';
+
+// Color correction applied to a frame before analysis. Each channel is
+// multiplied by its gain and then by the exposure gain.
+export interface ColorCorrection {
+  method: WhiteBalanceMethod;
+  gains: [number, number, number]; // r, g, b
+  exposure: number;
+  brightnessBefore: number; // mean frame brightness after white balance, before exposure, 0-1
+  brightnessAfter: number;
+}
+
+// Axis-aligned pixel rectangle inside a frame
+export interface Region {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Per-pixel clothing weight (0-255), at the segmentation model's resolution
+export interface ClothingMask {
+  data: Uint8Array;
+  width: number;
+  height: number;
+}
+
+// One extracted palette color and the share (0-1) of sampled pixels it covers
+export interface PaletteSwatch {
+  rgb: Rgb;
+  hex: string;
+  name: string;
+  coverage: number;
+}
+
+export type HarmonyScheme =
+  | 'neutral'
+  | 'monochrome'
+  | 'analogous'
+  | 'complementary'
+  | 'split-complementary'
+  | 'triadic'
+  | 'neutral-accent'
+  | 'none';
+
+export interface HarmonyResult {
+  scheme: HarmonyScheme;
+  label: string;
+  closeness: number; // 0-1, how well the palette hues fit the scheme's angles
+  hues: number[]; // distinct artist's-wheel hues (degrees) that took part in the match
+}
+
+export type ContrastLevel = 'low' | 'medium' | 'high';
+
+export interface ContrastResult {
+  ratio: number; // WCAG-style ratio used for scoring, 1 (none) to 21
+  level: ContrastLevel;
+  paletteRatio: number; // darkest vs lightest significant swatch
+  garmentRatio: number | null; // upper vs lower garment, when both are visible
+  garmentDeltaL: number | null; // OKLab lightness difference (0-100) between them
+  darkest: string | null;
+  lightest: string | null;
+}
+
+// One scoring criterion: what was measured and how many points it earned
+export interface ScoreCriterion {
+  id: string;
+  label: string;
+  measurement: number;
+  measurementLabel: string;
+  points: number;
+  maxPoints: number;
+  reason: string;
+}
+
+export type SuggestionSeverity = 'praise' | 'tip' | 'warning';
+
+// A piece of advice and the rule that produced it
+export interface Suggestion {
+  ruleId: string;
+  severity: SuggestionSeverity;
+  priority: number;
+  text: string;
+}
+
+// One input to the confidence estimate, with its 0-1 quality and a user-facing explanation
+export interface ConfidenceFactor {
+  id: string;
+  label: string;
+  quality: number;
+  weight: number;
+  detail: string;
+}
+
+export interface StylePrediction {
+  label: string;
+  probability: number; // 0-1
+}
+
+// Ranked style labels and whether they came from the model or the color heuristic
+export interface StyleClassification {
+  source: 'model' | 'heuristic';
+  predictions: StylePrediction[];
+  error?: string; // why the model fell back to the heuristic, when it failed
+}
+
+// [x, y, width, height] in frame pixels
+export type BBox = [number, number, number, number];
+
+// One box as returned by a transformers.js object-detection pipeline
+export interface RawDetection {
+  label: string;
+  score: number;
+  box: { xmin: number; ymin: number; xmax: number; ymax: number };
+}
+
+export type ItemCategory = 'garment' | 'footwear' | 'accessory' | 'detail';
+
+// A garment or accessory found by the clothing detector
+export interface ClothingItem {
+  label: string;
+  rawLabel: string;
+  category: ItemCategory;
+  bbox: BBox;
+  confidence: number;
+}
+
+// A detected accessory with its main color checked against the outfit
+export interface AccessoryAnalysis extends ClothingItem {
+  color: string | null;
+  hex: string | null;
+  clashes: boolean;
+}
+
+export type Season = 'spring' | 'summer' | 'autumn' | 'winter';
+
+export type Undertone = 'warm' | 'cool' | 'neutral';
+
+// Median skin, hair and eye colors from one capture
+export interface ToneSample {
+  skin: Rgb;
+  hair: Rgb | null;
+  eyes: Rgb | null;
+}
+
+// The wearer's own coloring, built up over several captures
+export interface PersonalColorProfile {
+  season: Season;
+  undertone: Undertone;
+  contrast: number; // OKLab lightness gap between skin and hair/eyes, 0-1
+  skin: string; // hex
+  hair: string | null;
+  eyes: string | null;
+  samples: number; // captures the classification is based on
+}
+
+// How the outfit's colors suit the wearer's seasonal palette
+export interface PersonalColorFit {
+  season: Season;
+  label: string;
+  score: number; // 0-1, share of the palette that suits
+  flattering: string[];
+  unflattering: string[];
+  faceColor: string | null; // main color of the piece nearest the face
+  faceColorSuits: boolean | null;
+}
+
+// How the outfit matches the occasion it is meant for
+export interface OccasionFit {
+  id: string;
+  label: string;
+  phrase: string;
+  expectedFormality: number | null; // 0-1, null when the occasion expects nothing
+  formality: number; // 0-1, estimated from the style and palette
+  formalityGap: number; // formality - expected; negative is underdressed
+  avoidedColors: string[]; // outfit colors the occasion advises against
+  preferredColors: string[];
+  avoidReason: string | null;
+}
+
+export type Precipitation = 'none' | 'drizzle' | 'rain' | 'snow';
+
+export interface WeatherConditions {
+  temperatureC: number;
+  precipitation: Precipitation;
+  windKph: number;
+  description: string | null;
+  location: string | null;
+}
+
+export type GarmentKind = 'top' | 'bottom' | 'footwear' | 'outerwear';
+
+export type PatternKind = 'solid' | 'striped' | 'checked' | 'floral' | 'graphic';
+
+export interface PatternAnalysis {
+  kind: PatternKind;
+  label: string;
+  confidence: number; // 0-1
+  source: 'model' | 'heuristic';
+  edgeDensity: number | null; // share of neighbouring grid cells that form an edge (heuristic only)
+}
+
+export interface GarmentAnalysis {
+  kind: GarmentKind;
+  label: string;
+  region: Region;
+  colors: string[];
+  palette: PaletteSwatch[];
+  brightness: number;
+  score: number;
+  pattern: PatternAnalysis | null;
+}
+
+// COCO body keypoints, as returned by VitPose and most 2D pose models
+export type KeypointName =
+  | 'nose'
+  | 'left_eye'
+  | 'right_eye'
+  | 'left_ear'
+  | 'right_ear'
+  | 'left_shoulder'
+  | 'right_shoulder'
+  | 'left_elbow'
+  | 'right_elbow'
+  | 'left_wrist'
+  | 'right_wrist'
+  | 'left_hip'
+  | 'right_hip'
+  | 'left_knee'
+  | 'right_knee'
+  | 'left_ankle'
+  | 'right_ankle';
+
+export interface Keypoint {
+  name: KeypointName;
+  x: number; // frame pixels
+  y: number;
+  score: number; // 0-1
+}
+
+// Where the top/bottom break falls: near a third (either way), near the middle, or neither
+export type SplitBalance = 'thirds' | 'halved' | 'uneven';
+
+export type HemPosition = 'above-knee' | 'knee' | 'mid-calf' | 'ankle';
+
+// Body landmarks are frame y coordinates; the waist is estimated from shoulders and hips
+export interface BodyProportions {
+  shoulderY: number;
+  waistY: number;
+  hipY: number;
+  kneeY: number | null;
+  ankleY: number | null;
+  splitY: number | null; // strongest color break between the top and the bottom half
+  split: number | null; // splitY as a share of the shoulder-to-ankle height
+  balance: SplitBalance | null;
+  hemY: number | null; // where the lower garment ends on the leg
+  hemOffset: number | null; // hem below the knee in shin lengths, negative above it
+  hem: HemPosition | null;
+}
+
+export interface OutfitAnalysis {
+  score: number;
+  breakdown: ScoreCriterion[];
+  style: string;
+  styleClassification: StyleClassification | null;
+  colors: string[];
+  palette: PaletteSwatch[];
+  rawPalette: PaletteSwatch[]; // palette of the uncorrected frame, for comparison
+  correction: ColorCorrection | null;
+  personalColor: PersonalColorFit | null;
+  occasion: OccasionFit | null;
+  weather: WeatherConditions | null;
+  harmony: HarmonyResult | null;
+  contrast: ContrastResult | null;
+  garments: GarmentAnalysis[];
+  items: ClothingItem[];
+  accessories: AccessoryAnalysis[];
+  proportions: BodyProportions | null;
+  suggestions: Suggestion[];
+  confidence: number; // 0-100, from capture quality (see confidenceFactors)
+  confidenceFactors: ConfidenceFactor[];
+  profile: ProfileId; // scoring profile that produced the score
+  personFound: boolean;
+  region: Region | null; // pixels that were scored, null when nothing was
+  masked: boolean; // true when a clothing mask restricted the scored pixels
+  frame: { width: number; height: number };
+}
+
+export interface GroupMember {
+  index: number; // position among the detected people, as numbered on the overlay
+  analysis: OutfitAnalysis;
+  formality: number; // 0-1
+  clashesWith: number[]; // indices of members whose colors fight this outfit's
+}
+
+export interface GroupAnalysis {
+  score: number; // 0-10
+  breakdown: ScoreCriterion[];
+  harmony: HarmonyResult; // of everyone's colors together
+  palette: PaletteSwatch[]; // all members' palettes, each weighted equally
+  sharedColors: string[]; // worn by at least two members
+  members: GroupMember[];
+  suggestions: Suggestion[];
+}
+
+export interface PersonDetection {
+  bbox: BBox;
+  confidence: number;
+}
@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { analyzePerson } from './analyze';
+import { FIGURE_BOX, FIGURE_DETECTION, figureImage } from './fixtures';
+import { describeWeather, hasOuterLayer } from './weather';
+import type { ClothingItem, WeatherConditions } from './types';
+
+const coldRain: WeatherConditions = { temperatureC: 4, precipitation: 'rain', windKph: 10, description: null, location: null };
+const coat: ClothingItem = { label: 'Coat', rawLabel: 'coat', category: 'garment', bbox: FIGURE_BOX, confidence: 0.9 };
+
+const weatherRules = (weather: WeatherConditions | null, items: ClothingItem[] = []) =>
+  analyzePerson(figureImage({ top: [200, 16, 46], bottom: [20, 30, 80] }), FIGURE_DETECTION, { weather, items })
+    .suggestions.map(suggestion => suggestion.ruleId)
+    .filter(id => id.includes('weather'));
+
+describe('weather suggestions', () => {
+  it('describes the conditions', () => {
+    expect(describeWeather(coldRain)).toBe('4°C and raining');
+  });
+
+  it('asks for a coat in the cold when no layer is worn', () => {
+    expect(weatherRules(coldRain)).toContain('weather-cold');
+    expect(weatherRules(coldRain)).not.toContain('praise-weather');
+  });
+
+  it('counts a detected coat as an outer layer', () => {
+    expect(hasOuterLayer([], [coat])).toBe(true);
+    expect(weatherRules(coldRain, [coat])).not.toContain('weather-cold');
+    expect(weatherRules(coldRain, [coat])).toContain('praise-weather');
+  });
+
+  it('stays quiet without weather', () => {
+    expect(weatherRules(null)).toEqual([]);
+  });
+});
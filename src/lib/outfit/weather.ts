@@ -0,0 +1,30 @@
+import { hasOuterLayerItem } from './items';
+import type { ClothingItem, GarmentAnalysis, WeatherConditions } from './types';
+
+// At or below this temperature (°C) an outer layer is needed
+export const COLD_TEMPERATURE = 10;
+
+// At or above this temperature (°C) layers and dark colors get uncomfortable
+export const HOT_TEMPERATURE = 26;
+
+// Wind speed (km/h) that catches loose skirts and cuts through thin knits
+export const WINDY_KPH = 30;
+
+const PRECIPITATION_PHRASES: Record<WeatherConditions['precipitation'], string> = {
+  none: '',
+  drizzle: ' and drizzling',
+  rain: ' and raining',
+  snow: ' and snowing'
+};
+
+// e.g. "4°C and raining"
+export const describeWeather = ({ temperatureC, precipitation }: WeatherConditions) =>
+  `${Math.round(temperatureC)}°C${PRECIPITATION_PHRASES[precipitation]}`;
+
+export const isWet = (weather: WeatherConditions | null) =>
+  !!weather && weather.precipitation !== 'none';
+
+// A layer seen as its own garment zone, or a jacket, coat or cardigan from the
+// item detector (a closed coat covers the whole torso, so shows no zone)
+export const hasOuterLayer = (garments: GarmentAnalysis[], items: ClothingItem[] = []) =>
+  garments.some(garment => garment.kind === 'outerwear') || hasOuterLayerItem(items);
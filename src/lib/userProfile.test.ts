@@ -0,0 +1,54 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { DEFAULT_USER_PROFILE, loadUserProfile } from './userProfile';
+
+const STORAGE_KEY = 'ootdify:user-profile';
+
+const policy = {
+  id: 'office',
+  name: 'Office',
+  rules: [{ id: 'colors', type: 'max-colors', max: 3 }]
+};
+
+const store = (value: unknown) => localStorage.setItem(STORAGE_KEY, JSON.stringify(value));
+
+describe('loadUserProfile', () => {
+  beforeEach(() => {
+    const items = new Map<string, string>();
+    vi.stubGlobal('localStorage', {
+      getItem: (key: string) => items.get(key) ?? null,
+      setItem: (key: string, value: string) => items.set(key, value)
+    });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('starts from the defaults when nothing is stored', () => {
+    expect(loadUserProfile()).toEqual(DEFAULT_USER_PROFILE);
+  });
+
+  it('keeps stored dress codes that pass validation', () => {
+    store({ dressCodes: [policy], activeDressCodeId: 'office' });
+
+    const profile = loadUserProfile();
+    expect(profile.dressCodes).toMatchObject([policy]);
+    expect(profile.dressCodes[0].rules[0].severity).toBe('fail');
+    expect(profile.activeDressCodeId).toBe('office');
+  });
+
+  it('drops stored dress codes that fail validation', () => {
+    const broken = { id: 'broken', name: 'Broken', rules: [{ id: 'colors', type: 'max-colors', max: 0 }] };
+    store({ dressCodes: [broken, policy, 'not a policy'], activeDressCodeId: 'broken' });
+
+    const profile = loadUserProfile();
+    expect(profile.dressCodes.map(code => code.id)).toEqual(['office']);
+    expect(profile.activeDressCodeId).toBeNull();
+  });
+
+  it('treats a non-list of dress codes as none', () => {
+    store({ dressCodes: { id: 'office' } });
+
+    expect(loadUserProfile().dressCodes).toEqual([]);
+  });
+});
@@ -0,0 +1,67 @@
+import {
+  DEFAULT_OCCASION_ID,
+  dressCodePolicySchema,
+  type CustomOccasion,
+  type DressCodePolicy,
+  type PersonalColorProfile,
+  type ToneSample
+} from '@/lib/outfit';
+
+// Per-user settings and measurements kept in the browser between sessions
+export interface UserProfile {
+  personalColorEnabled: boolean;
+  toneSamples: ToneSample[];
+  personalColor: PersonalColorProfile | null;
+  occasionId: string;
+  customOccasions: CustomOccasion[];
+  dressCodes: DressCodePolicy[];
+  activeDressCodeId: string | null;
+}
+
+const STORAGE_KEY = 'ootdify:user-profile';
+
+export const DEFAULT_USER_PROFILE: UserProfile = {
+  personalColorEnabled: false,
+  toneSamples: [],
+  personalColor: null,
+  occasionId: DEFAULT_OCCASION_ID,
+  customOccasions: [],
+  dressCodes: [],
+  activeDressCodeId: null
+};
+
+// Stored policies get the same validation as imported ones; any that no longer
+// parse (edited by hand, or from an older format) are dropped
+const validDressCodes = (stored: unknown): DressCodePolicy[] =>
+  Array.isArray(stored)
+    ? stored.flatMap(policy => {
+      const parsed = dressCodePolicySchema.safeParse(policy);
+      return parsed.success ? [parsed.data] : [];
+    })
+    : [];
+
+export const loadUserProfile = (): UserProfile => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (!stored) return DEFAULT_USER_PROFILE;
+
+    const profile: UserProfile = { ...DEFAULT_USER_PROFILE, ...JSON.parse(stored) };
+    const dressCodes = validDressCodes(profile.dressCodes);
+    return {
+      ...profile,
+      dressCodes,
+      activeDressCodeId: dressCodes.some(policy => policy.id === profile.activeDressCodeId) ? profile.activeDressCodeId : null
+    };
+  } catch (error) {
+    console.error('Error loading user profile:', error);
+    return DEFAULT_USER_PROFILE;
+  }
+};
+
+export const saveUserProfile = (profile: UserProfile) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(profile));
+  } catch (error) {
+    console.error('Error saving user profile:', error);
+  }
+};
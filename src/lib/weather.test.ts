@@ -0,0 +1,50 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createDefaultWeatherProvider, parseOpenMeteo, parseWeatherConditions } from './weather';
+
+describe('createDefaultWeatherProvider', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('reports no weather unless a source is configured', () => {
+    vi.stubEnv('VITE_WEATHER_URL', '');
+    vi.stubEnv('VITE_WEATHER_FILE', '');
+
+    expect(createDefaultWeatherProvider()).toBeNull();
+  });
+
+  it('uses the bundled sample file only when asked to', () => {
+    vi.stubEnv('VITE_WEATHER_URL', '');
+    vi.stubEnv('VITE_WEATHER_FILE', '/weather.json');
+
+    expect(createDefaultWeatherProvider()?.name).toBe('/weather.json');
+  });
+
+  it('prefers a live endpoint', () => {
+    vi.stubEnv('VITE_WEATHER_URL', 'https://weather.example/current');
+    vi.stubEnv('VITE_WEATHER_FILE', '/weather.json');
+
+    expect(createDefaultWeatherProvider()?.name).toBe('https://weather.example/current');
+  });
+});
+
+describe('weather parsers', () => {
+  it("validates the app's own shape", () => {
+    expect(parseWeatherConditions({ temperatureC: 4, precipitation: 'rain', windKph: 18 })).toEqual({
+      temperatureC: 4,
+      precipitation: 'rain',
+      windKph: 18,
+      description: null,
+      location: null
+    });
+    expect(() => parseWeatherConditions({ temperatureC: 4, precipitation: 'hail', windKph: 18 })).toThrow();
+  });
+
+  it('maps Open-Meteo precipitation and snowfall', () => {
+    const current = { temperature_2m: -2, precipitation: 1.2, snowfall: 0.4, wind_speed_10m: 12 };
+
+    expect(parseOpenMeteo({ current }).precipitation).toBe('snow');
+    expect(parseOpenMeteo({ current: { ...current, snowfall: 0 } }).precipitation).toBe('rain');
+    expect(parseOpenMeteo({ current: { ...current, snowfall: 0, precipitation: 0.2 } }).precipitation).toBe('drizzle');
+  });
+});
@@ -0,0 +1,95 @@
+import type { Precipitation, WeatherConditions } from '@/lib/outfit';
+
+// Anything that can report the current weather
+export interface WeatherProvider {
+  name: string;
+  getCurrent: () => Promise<WeatherConditions>;
+}
+
+const PRECIPITATION: Precipitation[] = ['none', 'drizzle', 'rain', 'snow'];
+
+// Validate a JSON payload in the app's own weather shape:
+// { temperatureC, precipitation, windKph, description?, location? }
+export const parseWeatherConditions = (json: unknown): WeatherConditions => {
+  const data = json as Partial<WeatherConditions>;
+  if (typeof data?.temperatureC !== 'number' || typeof data.windKph !== 'number') {
+    throw new Error('Weather response needs numeric temperatureC and windKph');
+  }
+  if (!PRECIPITATION.includes(data.precipitation)) {
+    throw new Error(`Unknown precipitation "${data.precipitation}"`);
+  }
+  return {
+    temperatureC: data.temperatureC,
+    precipitation: data.precipitation,
+    windKph: data.windKph,
+    description: data.description ?? null,
+    location: data.location ?? null
+  };
+};
+
+// Open-Meteo's `current` block (temperature_2m, precipitation, snowfall, wind_speed_10m)
+export const parseOpenMeteo = (json: unknown): WeatherConditions => {
+  const current = (json as { current?: Record<string, number> })?.current;
+  if (!current || typeof current.temperature_2m !== 'number') {
+    throw new Error('Open-Meteo response has no current temperature');
+  }
+  const precipitation: Precipitation = current.snowfall > 0
+    ? 'snow'
+    : current.precipitation >= 0.5
+      ? 'rain'
+      : current.precipitation > 0
+        ? 'drizzle'
+        : 'none';
+  return {
+    temperatureC: current.temperature_2m,
+    precipitation,
+    windKph: current.wind_speed_10m ?? 0,
+    description: null,
+    location: null
+  };
+};
+
+// Fixed conditions, for offline use and demos
+export const createStaticWeatherProvider = (conditions: WeatherConditions): WeatherProvider => ({
+  name: 'static',
+  getCurrent: async () => conditions
+});
+
+// Any endpoint returning JSON; `parse` adapts its shape to WeatherConditions.
+// A JSON file served with the app works the same way.
+export const createHttpWeatherProvider = (
+  url: string,
+  parse: (json: unknown) => WeatherConditions = parseWeatherConditions
+): WeatherProvider => ({
+  name: url,
+  getCurrent: async () => {
+    const response = await fetch(url);
+    if (!response.ok) throw new Error(`Weather request failed with ${response.status}`);
+    return parse(await response.json());
+  }
+});
+
+export const createFileWeatherProvider = (path: string) => createHttpWeatherProvider(path);
+
+// VITE_WEATHER_URL points at a live endpoint (VITE_WEATHER_FORMAT=open-meteo for
+// Open-Meteo). VITE_WEATHER_FILE opts into a fixed file such as the bundled
+// /weather.json sample, for offline demos. With neither there is no weather,
+// rather than made-up conditions passed off as live.
+export const createDefaultWeatherProvider = (): WeatherProvider | null => {
+  const url = import.meta.env.VITE_WEATHER_URL as string | undefined;
+  if (url) {
+    return createHttpWeatherProvider(url, import.meta.env.VITE_WEATHER_FORMAT === 'open-meteo' ? parseOpenMeteo : parseWeatherConditions);
+  }
+  const file = import.meta.env.VITE_WEATHER_FILE as string | undefined;
+  return file ? createFileWeatherProvider(file) : null;
+};
+
+// Resolves to null instead of throwing, so a weather outage never blocks analysis
+export const fetchWeather = async (provider: WeatherProvider) => {
+  try {
+    return await provider.getCurrent();
+  } catch (error) {
+    console.error(`Error loading weather from ${provider.name}:`, error);
+    return null;
+  }
+};